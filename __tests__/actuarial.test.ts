@@ -0,0 +1,50 @@
+import { EstimateInput, estimateLifeExpectancy } from '../app/lib/actuarial';
+
+const TODAY = new Date(2024, 5, 1);
+
+const estimate = (overrides: Partial<EstimateInput> = {}) =>
+  estimateLifeExpectancy({ birthDate: '2024-06-01', country: 'US', sex: 'female', today: TODAY, ...overrides });
+
+describe('estimateLifeExpectancy', () => {
+  it('matches the published figure at birth', () => {
+    const { expectedAge, currentAge, remainingYears, breakdown } = estimate();
+
+    expect(currentAge).toBe(0);
+    expect(remainingYears).toBeCloseTo(80.7, 1);
+    expect(expectedAge).toBe(81);
+    expect(breakdown).toEqual([{ label: 'Life expectancy at birth for women in United States', years: 80.7 }]);
+  });
+
+  it('falls back to the world average for an unknown country', () => {
+    const { breakdown } = estimate({ country: undefined, sex: 'unspecified' });
+    expect(breakdown[0]).toEqual({ label: 'Life expectancy at birth for all sexes in the world', years: 73.4 });
+  });
+
+  it('only grows with the age already reached', () => {
+    const ages = [0, 30, 60, 90].map((age) => estimate({ birthDate: `${2024 - age}-06-01` }));
+
+    ages.slice(1).forEach((older, i) => {
+      expect(older.currentAge + older.remainingYears).toBeGreaterThan(ages[i].currentAge + ages[i].remainingYears);
+      expect(older.remainingYears).toBeLessThan(ages[i].remainingYears);
+    });
+  });
+
+  it('reports each lifestyle answer as its own step, adding up to the estimate', () => {
+    const { currentAge, remainingYears, breakdown } = estimate({
+      birthDate: '1984-06-01',
+      lifestyle: { smoking: 'current', activity: 'high', bmi: 'normal' },
+    });
+
+    expect(breakdown.map((step) => step.label)).toEqual([
+      'Life expectancy at birth for women in United States',
+      'Having already reached 40 (modelled)',
+      'Current smoker',
+      'Very active',
+    ]);
+    expect(breakdown[2].years).toBeLessThan(0);
+    expect(breakdown[3].years).toBeGreaterThan(0);
+
+    const total = breakdown.reduce((sum, step) => sum + step.years, 0);
+    expect(total).toBeCloseTo(currentAge + remainingYears, 0);
+  });
+});
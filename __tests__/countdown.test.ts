@@ -0,0 +1,53 @@
+import { timeRemaining } from '../app/lib/countdown';
+
+// Tests run in New York time (see jest.global-setup.js): clocks went forward on 10 March 2024.
+
+describe('timeRemaining', () => {
+  it('rolls the years over on the anniversary', () => {
+    const to = new Date(2025, 5, 10);
+
+    expect(timeRemaining(new Date(2024, 5, 10), to)).toEqual({
+      years: 1,
+      days: 0,
+      hours: 0,
+      minutes: 0,
+      seconds: 0,
+      done: false,
+    });
+    expect(timeRemaining(new Date(2024, 5, 10, 0, 0, 1), to)).toEqual({
+      years: 0,
+      days: 364,
+      hours: 23,
+      minutes: 59,
+      seconds: 59,
+      done: false,
+    });
+  });
+
+  it('counts a day from Feb 29 to Feb 28 as the full year in common years', () => {
+    expect(timeRemaining(new Date(2024, 1, 29), new Date(2025, 1, 28))).toMatchObject({ years: 1, days: 0 });
+    expect(timeRemaining(new Date(2024, 1, 28), new Date(2025, 1, 28))).toMatchObject({ years: 1, days: 0 });
+    expect(timeRemaining(new Date(2024, 1, 28), new Date(2024, 1, 29))).toMatchObject({ years: 0, days: 1 });
+  });
+
+  it('rolls the days over at local midnight across a DST change', () => {
+    expect(timeRemaining(new Date(2024, 2, 9, 12), new Date(2024, 2, 10, 12))).toMatchObject({ days: 1, hours: 0 });
+    expect(timeRemaining(new Date(2024, 2, 9, 12), new Date(2024, 2, 10, 11, 59))).toMatchObject({ days: 0 });
+    // The hours left are real ones: the night the clocks go forward is an hour short.
+    expect(timeRemaining(new Date(2024, 2, 10), new Date(2024, 2, 10, 12))).toMatchObject({ days: 0, hours: 11 });
+  });
+
+  it('ticks down one second at a time', () => {
+    const to = new Date(2030, 0, 1);
+    const at = (seconds: number) => timeRemaining(new Date(2029, 11, 31, 23, 59, seconds), to);
+
+    expect(at(58)).toMatchObject({ years: 0, days: 0, hours: 0, minutes: 0, seconds: 2 });
+    expect(at(59)).toMatchObject({ seconds: 1, done: false });
+  });
+
+  it('is done, with every unit at zero, once the moment has passed', () => {
+    const done = { years: 0, days: 0, hours: 0, minutes: 0, seconds: 0, done: true };
+    expect(timeRemaining(new Date(2030, 0, 1), new Date(2030, 0, 1))).toEqual(done);
+    expect(timeRemaining(new Date(2031, 0, 1), new Date(2030, 0, 1))).toEqual(done);
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  addYears,
+  ageOn,
+  daysBetween,
+  formatDateInput,
+  parseDateInput,
+  parseLocalDate,
+  toDateString,
+} from '../app/lib/dates';
+
+// Tests run in New York time (see jest.global-setup.js): clocks went forward on 10 March 2024
+// and back on 3 November 2024.
+
+describe('parseLocalDate', () => {
+  it('reads a stored date as local midnight of that day', () => {
+    expect(parseLocalDate('1990-12-25')).toEqual(new Date(1990, 11, 25));
+  });
+
+  it('rejects days that do not exist instead of rolling them over', () => {
+    expect(parseLocalDate('1990-02-31')).toBeNull();
+    expect(parseLocalDate('2023-02-29')).toBeNull();
+    expect(parseLocalDate('1990-13-01')).toBeNull();
+    expect(parseLocalDate('1990-2-3')).toBeNull();
+  });
+
+  it('accepts Feb 29 in leap years only', () => {
+    expect(parseLocalDate('2000-02-29')).toEqual(new Date(2000, 1, 29));
+    expect(parseLocalDate('1900-02-29')).toBeNull();
+  });
+});
+
+describe('parseDateInput', () => {
+  it('reads typed dates in the given locale order', () => {
+    expect(parseDateInput('25/12/1990', 'en-GB')).toEqual(new Date(1990, 11, 25));
+    expect(parseDateInput('12/25/1990', 'en-US')).toEqual(new Date(1990, 11, 25));
+    expect(parseDateInput('1990-12-25', 'en-US')).toEqual(new Date(1990, 11, 25));
+  });
+
+  it('rejects impossible dates and two-digit years', () => {
+    expect(parseDateInput('31/02/1990', 'en-GB')).toBeNull();
+    expect(parseDateInput('01/02/03', 'en-GB')).toBeNull();
+  });
+
+  it('reads back what formatDateInput writes in every locale order', () => {
+    const date = new Date(1990, 2, 4);
+    ['en-GB', 'en-US', 'ja-JP', 'de-DE'].forEach((locale) => {
+      expect(parseDateInput(formatDateInput(date, locale), locale)).toEqual(date);
+    });
+  });
+});
+
+describe('daysBetween', () => {
+  it('counts the 23-hour and 25-hour days as one day each', () => {
+    expect(daysBetween(new Date(2024, 2, 10), new Date(2024, 2, 11))).toBe(1);
+    expect(daysBetween(new Date(2024, 10, 3), new Date(2024, 10, 4))).toBe(1);
+    expect(daysBetween(new Date(2024, 0, 1), new Date(2025, 0, 1))).toBe(366);
+  });
+
+  it('ignores the time of day', () => {
+    expect(daysBetween(new Date(2024, 2, 9, 23, 59), new Date(2024, 2, 10, 0, 1))).toBe(1);
+  });
+});
+
+describe('addYears and ageOn', () => {
+  const leapling = new Date(2000, 1, 29);
+
+  it('moves Feb 29 to Feb 28 in years without one', () => {
+    expect(toDateString(addYears(leapling, 1))).toBe('2001-02-28');
+    expect(toDateString(addYears(leapling, 4))).toBe('2004-02-29');
+  });
+
+  it('has someone born on Feb 29 turn a year older on Feb 28 in common years', () => {
+    expect(ageOn(leapling, new Date(2001, 1, 27))).toBe(0);
+    expect(ageOn(leapling, new Date(2001, 1, 28))).toBe(1);
+    expect(ageOn(leapling, new Date(2004, 1, 28))).toBe(3);
+    expect(ageOn(leapling, new Date(2004, 1, 29))).toBe(4);
+  });
+});
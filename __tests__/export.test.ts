@@ -0,0 +1,108 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { buildBackup, monthKey, NO_DEVICE_DATA, readDeviceData, reflectionsToCsv, toMarkdownJournal } from '../app/lib/export';
+import { Reflection, UserProfile } from '../app/lib/models';
+import { parseBackup } from '../app/lib/restore';
+import { store } from '../app/lib/store';
+
+const PROFILE: UserProfile = { id: 'p1', name: 'Ada', birth_date: '1990-05-01', life_expectancy: 80 };
+
+const reflection = (id: string, date: string, overrides: Partial<Reflection> = {}): Reflection => ({
+  id,
+  type: 'daily',
+  date,
+  mood_score: 4,
+  productivity_score: 3,
+  gratitude_items: ['Coffee'],
+  lessons_learned: [],
+  goals_progress: [],
+  challenges_faced: [],
+  created_at: date,
+  ...overrides,
+});
+
+// Tests run in New York time (see jest.global-setup.js), where this is 23:30 on 31 March.
+const LATE_MARCH = '2024-04-01T03:30:00.000Z';
+
+describe('monthKey', () => {
+  it('uses the local month of a timestamp, not the UTC one', () => {
+    expect(monthKey(LATE_MARCH)).toBe('2024-03');
+  });
+
+  it('reads a bare date as that calendar day', () => {
+    expect(monthKey('2024-03-31')).toBe('2024-03');
+    expect(monthKey('2024-04-01')).toBe('2024-04');
+  });
+});
+
+describe('toMarkdownJournal', () => {
+  it('files each entry under the month of its own heading', () => {
+    const markdown = toMarkdownJournal(PROFILE, [], [
+      reflection('r2', '2024-04-02T12:00:00.000Z'),
+      reflection('r1', LATE_MARCH),
+    ]);
+    const lines = markdown.split('\n');
+
+    const headings = lines.filter((line) => line.startsWith('## ') || line.startsWith('### '));
+    expect(headings).toEqual([
+      `## ${new Date(2024, 2, 1).toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}`,
+      `### ${new Date(2024, 2, 31).toLocaleDateString()} · Daily`,
+      `## ${new Date(2024, 3, 1).toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}`,
+      `### ${new Date(2024, 3, 2).toLocaleDateString()} · Daily`,
+    ]);
+  });
+
+  it('lists goals after the reflections', () => {
+    const markdown = toMarkdownJournal(PROFILE, [
+      {
+        id: 'g1',
+        title: 'Run a marathon',
+        description: '',
+        category: 'health',
+        priority: 'high',
+        status: 'completed',
+        target_date: '2024-10-01',
+        created_at: '2024-01-01T00:00:00.000Z',
+        updated_at: '2024-01-01T00:00:00.000Z',
+      },
+    ], []);
+
+    expect(markdown).toContain('## Goals\n\n- [x] **Run a marathon**, health, completed (target 2024-10-01)');
+  });
+});
+
+describe('reflectionsToCsv', () => {
+  it('quotes cells holding commas, quotes or line breaks', () => {
+    const csv = reflectionsToCsv([
+      reflection('r1', '2024-03-01', { gratitude_items: ['Tea, biscuits', 'A "quiet" morning'], lessons_learned: ['Line\nbreak'] }),
+    ]);
+
+    expect(csv.split('\r\n')[1]).toBe(
+      'r1,daily,2024-03-01,4,3,"Tea, biscuits | A ""quiet"" morning","Line\nbreak",,,2024-03-01'
+    );
+  });
+});
+
+describe('buildBackup', () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  it('carries the device-only data and reads back the same', async () => {
+    await store.setChapters(PROFILE.id, [
+      { id: 'chapter_1', title: 'University', start_date: '2008-09-01', end_date: '2012-06-30', color: '#4ECDC4' },
+    ]);
+    await store.setWeekNotes(PROFILE.id, [
+      { week_start: '2024-05-28', text: 'Moved flat', updated_at: '2024-05-30T09:00:00.000Z' },
+    ]);
+
+    const backup = buildBackup(PROFILE, [], [reflection('r1', '2024-05-30')], await readDeviceData(PROFILE.id));
+
+    expect(backup.chapters).toHaveLength(1);
+    expect(backup.week_notes).toHaveLength(1);
+    expect(backup.moments).toBeNull();
+    expect(backup.quote_library).toBeNull();
+    expect(parseBackup(JSON.stringify(backup))).toEqual(backup);
+  });
+
+  it('leaves the device data empty for a profile that has none', async () => {
+    expect(await readDeviceData(PROFILE.id)).toEqual(NO_DEVICE_DATA);
+  });
+});
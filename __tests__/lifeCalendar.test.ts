@@ -0,0 +1,55 @@
+import { buildLifeCalendar, CalendarZoom, ZOOM_COLUMNS } from '../app/lib/lifeCalendar';
+import { calculateMortalityStats } from '../app/lib/mortality';
+
+const BIRTH = new Date(1990, 4, 1);
+const NOW = new Date(2024, 5, 1, 15, 30);
+
+const cellsOf = (zoom: CalendarZoom, now = NOW, lifeExpectancy = 80) =>
+  buildLifeCalendar(BIRTH, lifeExpectancy, zoom, now).flatMap((row) => row.cells);
+
+describe('buildLifeCalendar', () => {
+  it('has one week cell per week of life, matching the mortality stats', () => {
+    const stats = calculateMortalityStats('1990-05-01', 80, NOW);
+    const cells = cellsOf('weeks');
+
+    expect(cells).toHaveLength(stats.weeks_lived + stats.weeks_remaining);
+    expect(cells.map((cell) => cell.index)).toEqual(cells.map((_, i) => i));
+    expect(cells.filter((cell) => cell.state === 'lived')).toHaveLength(stats.weeks_lived);
+    expect(cells.filter((cell) => cell.state === 'current').map((cell) => cell.index)).toEqual([stats.weeks_lived]);
+  });
+
+  it('starts a row of weeks at every birthday and never overfills it', () => {
+    const rows = buildLifeCalendar(BIRTH, 80, 'weeks', NOW);
+
+    expect(rows).toHaveLength(80);
+    rows.forEach((row, age) => {
+      expect(row.age).toBe(age);
+      expect(row.cells.length).toBeLessThanOrEqual(ZOOM_COLUMNS.weeks);
+    });
+  });
+
+  it('moves the current week on the weekday of birth', () => {
+    // 1 May 1990 was a Tuesday, so week 1778 starts on Tuesday 28 May 2024.
+    const current = (now: Date) => cellsOf('weeks', now).find((cell) => cell.state === 'current')!.index;
+
+    expect(current(new Date(2024, 4, 27, 23, 59))).toBe(1777);
+    expect(current(new Date(2024, 4, 28))).toBe(1778);
+  });
+
+  it('marks the current month and year of life', () => {
+    const months = cellsOf('months');
+    expect(months).toHaveLength(80 * 12);
+    expect(months.filter((cell) => cell.state === 'current').map((cell) => cell.index)).toEqual([34 * 12 + 1]);
+
+    const rows = buildLifeCalendar(BIRTH, 80, 'years', NOW);
+    expect(rows).toHaveLength(8);
+    const years = rows.flatMap((row) => row.cells);
+    expect(years).toHaveLength(80);
+    expect(years.filter((cell) => cell.state === 'current').map((cell) => cell.index)).toEqual([34]);
+  });
+
+  it('has no current cell once the expected lifespan is over', () => {
+    const cells = cellsOf('weeks', NOW, 30);
+    expect(cells.every((cell) => cell.state === 'lived')).toBe(true);
+  });
+});
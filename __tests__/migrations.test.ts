@@ -0,0 +1,119 @@
+import type AsyncStorageStatic from '@react-native-async-storage/async-storage';
+import type * as Migrations from '../app/lib/migrations';
+
+// ensureMigrated runs once per launch, so every test gets its own app and storage.
+const launch = () => {
+  let app!: { storage: typeof AsyncStorageStatic; migrations: typeof Migrations };
+  jest.isolateModules(() => {
+    /* eslint-disable @typescript-eslint/no-require-imports -- a fresh module registry needs require */
+    app = {
+      storage: require('@react-native-async-storage/async-storage'),
+      migrations: require('../app/lib/migrations'),
+    };
+    /* eslint-enable @typescript-eslint/no-require-imports */
+  });
+  return app;
+};
+
+const PROFILE = { id: 'p1', name: 'Ada', birth_date: '1990-05-01', life_expectancy: 80 };
+
+const readJSON = async (storage: typeof AsyncStorageStatic, key: string) => {
+  const raw = await storage.getItem(key);
+  return raw === null ? null : JSON.parse(raw);
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('storage migrations', () => {
+  it('upgrades a pre-versioning install to the current layout', async () => {
+    const { storage, migrations } = launch();
+    await storage.multiSet([
+      ['userProfileId', 'p1'],
+      ['onboardingCompleted', 'true'],
+      ['store:profile', JSON.stringify(PROFILE)],
+      ['store:syncQueue', '[]'],
+      ['store:lock', JSON.stringify({ salt: 'ab' })],
+      ['store:goals:p1', JSON.stringify([{ id: 'g1', title: 'Run', target_date: '' }])],
+      ['store:quote', JSON.stringify({ id: 'q1' })],
+    ]);
+
+    expect(await migrations.ensureMigrated()).toEqual({ version: migrations.CURRENT_STORAGE_VERSION });
+
+    expect(await storage.getItem('store:version')).toBe(String(migrations.CURRENT_STORAGE_VERSION));
+    expect(await readJSON(storage, 'store:session')).toEqual({ profileIds: ['p1'], activeProfileId: 'p1' });
+    expect(await readJSON(storage, 'store:profile:p1')).toEqual(PROFILE);
+    expect(await storage.getItem('store:syncQueue:p1')).toBe('[]');
+    expect(await readJSON(storage, 'store:lock:p1')).toEqual({ salt: 'ab' });
+    expect(await readJSON(storage, 'store:goals:p1')).toEqual([{ id: 'g1', title: 'Run', target_date: null }]);
+
+    const leftovers = await storage.multiGet([
+      'userProfileId',
+      'onboardingCompleted',
+      'store:profile',
+      'store:syncQueue',
+      'store:lock',
+      'store:quote',
+    ]);
+    expect(leftovers.every(([, value]) => value === null)).toBe(true);
+  });
+
+  it('reshapes the session v1 wrote into a profile list in a later step', async () => {
+    const { storage, migrations } = launch();
+    await storage.multiSet([
+      ['store:version', '1'],
+      ['store:session', JSON.stringify({ profileId: 'p1', onboardingCompleted: true })],
+      ['store:profile', JSON.stringify(PROFILE)],
+    ]);
+
+    await migrations.ensureMigrated();
+
+    expect(await readJSON(storage, 'store:session')).toEqual({ profileIds: ['p1'], activeProfileId: 'p1' });
+    expect(await readJSON(storage, 'store:profile:p1')).toEqual(PROFILE);
+  });
+
+  it('only runs the migrations newer than the stored version', async () => {
+    const { storage, migrations } = launch();
+    await storage.multiSet([
+      ['store:version', '3'],
+      ['store:quote', JSON.stringify({ id: 'q1' })],
+      ['store:goals:p1', JSON.stringify([{ id: 'g1', target_date: '' }])],
+    ]);
+
+    await migrations.ensureMigrated();
+
+    expect(await storage.getItem('store:quote')).toBeNull();
+    expect(await readJSON(storage, 'store:goals:p1')).toEqual([{ id: 'g1', target_date: '' }]);
+  });
+
+  it('stays on the last good version when a step fails, and retries it on the next launch', async () => {
+    const first = launch();
+    await first.storage.multiSet([
+      ['userProfileId', 'p1'],
+      ['onboardingCompleted', 'true'],
+      ['store:goals:p1', JSON.stringify([{ id: 'g1', target_date: '' }])],
+    ]);
+    const setItem = jest.mocked(first.storage.setItem);
+    const write = setItem.getMockImplementation()!;
+    setItem.mockImplementation((key, value) =>
+      key.startsWith('store:goals:') ? Promise.reject(new Error('Disk full')) : write(key, value)
+    );
+
+    expect(await first.migrations.ensureMigrated()).toEqual({ version: 1, error: 'Disk full' });
+    expect(await first.storage.getItem('store:version')).toBe('1');
+    // Nothing the failed step reads was removed.
+    expect(await readJSON(first.storage, 'store:goals:p1')).toEqual([{ id: 'g1', target_date: '' }]);
+
+    const stored = await first.storage.multiGet(await first.storage.getAllKeys());
+    const second = launch();
+    await second.storage.multiSet(stored.filter((pair): pair is [string, string] => pair[1] !== null));
+
+    expect(await second.migrations.ensureMigrated()).toEqual({ version: second.migrations.CURRENT_STORAGE_VERSION });
+    expect(await readJSON(second.storage, 'store:goals:p1')).toEqual([{ id: 'g1', target_date: null }]);
+  });
+});
@@ -0,0 +1,74 @@
+import { addDays, parseLocalDate } from '../app/lib/dates';
+import { findMilestones, milestoneTimeline } from '../app/lib/milestones';
+import { calculateMortalityStats } from '../app/lib/mortality';
+
+const BIRTH = '1990-05-01';
+
+const find = (id: string) => findMilestones(BIRTH, 80).find((milestone) => milestone.id === id)!;
+
+// Stats at the start of a 'YYYY-MM-DD' day, and at the end of the day before.
+const statsAround = (date: string) => {
+  const day = parseLocalDate(date)!;
+  return {
+    before: calculateMortalityStats(BIRTH, 80, new Date(addDays(day, -1).getTime() + 86399000)),
+    on: calculateMortalityStats(BIRTH, 80, day),
+  };
+};
+
+describe('findMilestones', () => {
+  it('gives every milestone a unique id that survives recalculation', () => {
+    const ids = findMilestones(BIRTH, 80).map((milestone) => milestone.id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(findMilestones(BIRTH, 80).map((milestone) => milestone.id)).toEqual(ids);
+    expect(ids).toEqual(expect.arrayContaining(['days_lived-10000', 'weeks_remaining-1000', 'life_percentage-50', 'birthday-40']));
+  });
+
+  it('orders milestones by date', () => {
+    const dates = findMilestones(BIRTH, 80).map((milestone) => milestone.date);
+    expect(dates).toEqual([...dates].sort());
+  });
+
+  it('falls on the day the mortality stats cross the threshold', () => {
+    const days = statsAround(find('days_lived-10000').date);
+    expect(days.before.days_lived).toBe(9999);
+    expect(days.on.days_lived).toBe(10000);
+
+    const weeks = statsAround(find('weeks_remaining-1000').date);
+    expect(weeks.before.weeks_remaining).toBe(1001);
+    expect(weeks.on.weeks_remaining).toBe(1000);
+  });
+
+  it('celebrates a Feb 29 birthday on Feb 28 in common years', () => {
+    const birthdays = findMilestones('2000-02-29', 80).filter((milestone) => milestone.kind === 'birthday');
+    expect(birthdays[0]).toMatchObject({ id: 'birthday-1', title: '1st birthday', date: '2001-02-28' });
+    expect(birthdays[3]).toMatchObject({ id: 'birthday-4', title: '4th birthday', date: '2004-02-29' });
+  });
+});
+
+describe('milestoneTimeline', () => {
+  it('keeps a milestone current for a week from the day it falls on', () => {
+    const { date } = find('birthday-40');
+    const day = parseLocalDate(date)!;
+    const groupOn = (now: Date) => {
+      const timeline = milestoneTimeline(BIRTH, 80, now);
+      return (['upcoming', 'current', 'passed'] as const).find((group) =>
+        timeline[group].some((milestone) => milestone.id === 'birthday-40')
+      );
+    };
+
+    expect(groupOn(addDays(day, -1))).toBe('upcoming');
+    expect(groupOn(day)).toBe('current');
+    expect(groupOn(addDays(day, 6))).toBe('current');
+    expect(groupOn(addDays(day, 7))).toBe('passed');
+  });
+
+  it('lists current and passed milestones newest first, upcoming ones soonest first', () => {
+    const { current, upcoming, passed } = milestoneTimeline(BIRTH, 80, new Date(2024, 5, 1));
+    const dates = (milestones: { date: string }[]) => milestones.map((milestone) => milestone.date);
+
+    expect(dates(upcoming)).toEqual([...dates(upcoming)].sort());
+    expect(dates(passed)).toEqual([...dates(passed)].sort().reverse());
+    expect(dates(current)).toEqual([...dates(current)].sort().reverse());
+  });
+});
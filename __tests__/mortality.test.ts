@@ -0,0 +1,44 @@
+import { calculateMortalityStats } from '../app/lib/mortality';
+
+describe('calculateMortalityStats', () => {
+  it('rejects a birth date that does not exist', () => {
+    expect(() => calculateMortalityStats('1990-02-31', 80)).toThrow('Invalid birth date: 1990-02-31');
+  });
+
+  it('starts each week of life on the weekday of birth', () => {
+    // 1 January 2000 was a Saturday.
+    expect(calculateMortalityStats('2000-01-01', 80, new Date(2000, 0, 7, 23, 59)).weeks_lived).toBe(0);
+    expect(calculateMortalityStats('2000-01-01', 80, new Date(2000, 0, 8)).weeks_lived).toBe(1);
+    expect(calculateMortalityStats('2000-01-01', 80, new Date(2024, 2, 16)).weeks_lived).toBe(1263);
+  });
+
+  it('keeps the weeks lived and remaining adding up to the whole life', () => {
+    const stats = calculateMortalityStats('1990-05-01', 80, new Date(2024, 5, 1));
+    const totalDays = stats.days_lived + stats.days_remaining;
+    expect(stats.weeks_lived + stats.weeks_remaining).toBe(Math.floor(totalDays / 7));
+  });
+
+  it('ages someone born on Feb 29 on Feb 28 in common years', () => {
+    expect(calculateMortalityStats('2000-02-29', 81, new Date(2001, 1, 27)).current_age).toBe(0);
+    expect(calculateMortalityStats('2000-02-29', 81, new Date(2001, 1, 28)).current_age).toBe(1);
+
+    const stats = calculateMortalityStats('2000-02-29', 81, new Date(2001, 1, 28));
+    expect(new Date(stats.expected_death_date)).toEqual(new Date(2081, 1, 28));
+  });
+
+  it('never runs backwards over the night the clocks go back', () => {
+    // 3 November 2024 was 25 hours long in New York.
+    const lastMinute = calculateMortalityStats('1990-05-01', 80, new Date(2024, 10, 3, 23, 59));
+    const midnight = calculateMortalityStats('1990-05-01', 80, new Date(2024, 10, 4));
+
+    expect(lastMinute.life_percentage).toBeLessThan(midnight.life_percentage);
+    expect(lastMinute.year_percentage!).toBeLessThan(midnight.year_percentage!);
+    expect(lastMinute.month_percentage!).toBeLessThan(midnight.month_percentage!);
+  });
+
+  it('counts the 23-hour day the clocks go forward as a whole day', () => {
+    const before = calculateMortalityStats('1990-05-01', 80, new Date(2024, 2, 10));
+    const after = calculateMortalityStats('1990-05-01', 80, new Date(2024, 2, 11));
+    expect(after.days_lived - before.days_lived).toBe(1);
+  });
+});
@@ -0,0 +1,48 @@
+import { toDateString } from '../app/lib/dates';
+import { nextQuote, QUOTES, quoteOfTheDay } from '../app/lib/quotes';
+
+// `count` consecutive 'YYYY-MM-DD' days from `start`.
+const days = (start: Date, count: number) =>
+  Array.from({ length: count }, (_, i) =>
+    toDateString(new Date(start.getFullYear(), start.getMonth(), start.getDate() + i))
+  );
+
+describe('quoteOfTheDay', () => {
+  it('gives the same quote for the same day, whatever order the rotation is in', () => {
+    const reversed = [...QUOTES].reverse();
+    expect(quoteOfTheDay(reversed, '2024-03-15')).toEqual(quoteOfTheDay(QUOTES, '2024-03-15'));
+  });
+
+  it('shows every quote once before any comes back', () => {
+    // Day 0 of a cycle: the epoch is 1970-01-01, so any multiple of the rotation length works.
+    const rotation = QUOTES.slice(0, 7);
+    const cycle = days(new Date(1970, 0, 1 + 7 * 2800), rotation.length);
+
+    const shown = cycle.map((date) => quoteOfTheDay(rotation, date)!.id);
+    expect(new Set(shown).size).toBe(rotation.length);
+  });
+
+  it('has nothing to show for an empty rotation', () => {
+    expect(quoteOfTheDay([], '2024-03-15')).toBeNull();
+  });
+});
+
+describe('nextQuote', () => {
+  it('avoids the quotes already shown today until the rotation runs out', () => {
+    const rotation = QUOTES.slice(0, 5);
+    const shownToday = [quoteOfTheDay(rotation, '2024-03-15')!.id];
+
+    while (shownToday.length < rotation.length) {
+      const next = nextQuote(rotation, '2024-03-15', shownToday, shownToday[shownToday.length - 1])!;
+      expect(shownToday).not.toContain(next.id);
+      shownToday.push(next.id);
+    }
+
+    const again = nextQuote(rotation, '2024-03-15', shownToday, shownToday[shownToday.length - 1]);
+    expect(again?.id).not.toBe(shownToday[shownToday.length - 1]);
+  });
+
+  it('has nothing else to show when the only quote is on screen', () => {
+    expect(nextQuote([QUOTES[0]], '2024-03-15', [QUOTES[0].id], QUOTES[0].id)).toBeNull();
+  });
+});
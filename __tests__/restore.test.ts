@@ -0,0 +1,215 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Backup, BACKUP_FORMAT, BACKUP_VERSION, NO_DEVICE_DATA, readDeviceData } from '../app/lib/export';
+import { LifeChapter, MomentFraming, QuoteLibrary, UserProfile, WeekNote } from '../app/lib/models';
+import { applyRestore, mergeDeviceData, parseBackup, planRestore } from '../app/lib/restore';
+import { store } from '../app/lib/store';
+
+const PROFILE: UserProfile = { id: 'p1', name: 'Ada', birth_date: '1990-05-01', life_expectancy: 80 };
+
+const fetchMock = jest.fn();
+global.fetch = fetchMock;
+
+const chapter = (id: string): LifeChapter => ({
+  id,
+  title: `Chapter ${id}`,
+  start_date: '2010-09-01',
+  end_date: null,
+  color: '#D4AF37',
+});
+
+const note = (week_start: string, text: string, updated_at: string): WeekNote => ({ week_start, text, updated_at });
+
+const framing = (id: string): MomentFraming => ({
+  id,
+  title: 'Visits home',
+  unit: 'visits',
+  rate: 2,
+  period: 'year',
+  years: null,
+  pinned: false,
+});
+
+const library = (overrides: Partial<QuoteLibrary> = {}): QuoteLibrary => ({
+  favorites: [],
+  mantras: [],
+  categories: ['stoic'],
+  history: [],
+  ...overrides,
+});
+
+const backup = (overrides: Partial<Backup> = {}): Backup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exported_at: '2024-06-01T12:00:00.000Z',
+  profile: PROFILE,
+  goals: [],
+  reflections: [],
+  ...NO_DEVICE_DATA,
+  ...overrides,
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  fetchMock.mockReset();
+});
+
+describe('parseBackup', () => {
+  it('reads a v1 backup as having no device data', () => {
+    const { chapters, week_notes, moments, quote_library, ...v1 } = backup();
+    const parsed = parseBackup(JSON.stringify({ ...v1, version: 1 }));
+
+    expect(parsed).toMatchObject(NO_DEVICE_DATA);
+  });
+
+  it('keeps the device data of a v2 backup', () => {
+    const data = {
+      chapters: [chapter('c1')],
+      week_notes: [note('2024-05-28', 'Moved flat', '2024-05-30T09:00:00.000Z')],
+      moments: [framing('m1')],
+      quote_library: library({ favorites: ['q1'] }),
+    };
+
+    expect(parseBackup(JSON.stringify(backup(data)))).toMatchObject(data);
+  });
+});
+
+describe('mergeDeviceData', () => {
+  it('adds chapters and framings it does not have yet', () => {
+    const merged = mergeDeviceData(
+      { ...NO_DEVICE_DATA, chapters: [chapter('c1'), chapter('c2')], moments: [framing('m1'), framing('m2')] },
+      { ...NO_DEVICE_DATA, chapters: [chapter('c1')], moments: [framing('m1')] }
+    );
+
+    expect(merged.chapters.map((c) => c.id)).toEqual(['c1', 'c2']);
+    expect(merged.moments?.map((m) => m.id)).toEqual(['m1', 'm2']);
+  });
+
+  it('keeps the later edit of a week note', () => {
+    const merged = mergeDeviceData(
+      {
+        ...NO_DEVICE_DATA,
+        week_notes: [
+          note('2024-05-21', 'older', '2024-05-22T09:00:00.000Z'),
+          note('2024-05-28', 'newer', '2024-06-02T09:00:00.000Z'),
+        ],
+      },
+      {
+        ...NO_DEVICE_DATA,
+        week_notes: [
+          note('2024-05-21', 'kept', '2024-05-25T09:00:00.000Z'),
+          note('2024-05-28', 'replaced', '2024-05-29T09:00:00.000Z'),
+        ],
+      }
+    );
+
+    expect(merged.week_notes.map((n) => n.text)).toEqual(['kept', 'newer']);
+  });
+
+  it('leaves framings and the quote library alone when the backup has the defaults', () => {
+    const existing = { ...NO_DEVICE_DATA, moments: [framing('m1')], quote_library: library() };
+
+    expect(mergeDeviceData(NO_DEVICE_DATA, existing)).toEqual(existing);
+  });
+
+  it('joins favorites, mantras and history but keeps the current rotation', () => {
+    const merged = mergeDeviceData(
+      {
+        ...NO_DEVICE_DATA,
+        quote_library: library({
+          favorites: ['q1', 'q2'],
+          mantras: [{ id: 'mantra_a', text: 'Begin again', author: 'Me' }],
+          categories: ['poetry'],
+          history: [
+            { quote_id: 'q2', date: '2024-05-02' },
+            { quote_id: 'q1', date: '2024-05-01' },
+          ],
+        }),
+      },
+      {
+        ...NO_DEVICE_DATA,
+        quote_library: library({
+          favorites: ['q1'],
+          history: [
+            { quote_id: 'q3', date: '2024-05-03' },
+            { quote_id: 'q1', date: '2024-05-01' },
+          ],
+        }),
+      }
+    );
+
+    expect(merged.quote_library).toEqual({
+      favorites: ['q1', 'q2'],
+      mantras: [{ id: 'mantra_a', text: 'Begin again', author: 'Me' }],
+      categories: ['stoic'],
+      history: [
+        { quote_id: 'q3', date: '2024-05-03' },
+        { quote_id: 'q2', date: '2024-05-02' },
+        { quote_id: 'q1', date: '2024-05-01' },
+      ],
+    });
+  });
+});
+
+describe('planRestore', () => {
+  const file = backup({
+    chapters: [chapter('c1'), chapter('c2')],
+    week_notes: [note('2024-05-28', 'Moved flat', '2024-05-30T09:00:00.000Z')],
+    quote_library: library({ mantras: [{ id: 'mantra_a', text: 'Begin again', author: 'Me' }] }),
+  });
+  const existing = {
+    goals: [],
+    reflections: [],
+    device: { ...NO_DEVICE_DATA, chapters: [chapter('c1')], week_notes: file.week_notes },
+  };
+
+  it('counts only what a merge adds', () => {
+    expect(planRestore(file, 'merge', existing).device).toEqual({ chapters: 1, weekNotes: 0, moments: 0, mantras: 1 });
+  });
+
+  it('counts everything in the backup when replacing', () => {
+    expect(planRestore(file, 'replace', existing).device).toEqual({ chapters: 2, weekNotes: 1, moments: 0, mantras: 1 });
+  });
+});
+
+describe('applyRestore', () => {
+  it('merges device data into the current profile', async () => {
+    await store.setChapters(PROFILE.id, [chapter('c1')]);
+    await store.setMoments(PROFILE.id, [framing('m1')]);
+
+    const file = backup({ chapters: [chapter('c2')], week_notes: [note('2024-05-28', 'Moved flat', '2024-05-30T09:00:00.000Z')] });
+    const existing = { goals: [], reflections: [], device: await readDeviceData(PROFILE.id) };
+    await applyRestore(planRestore(file, 'merge', existing), PROFILE);
+
+    const device = await readDeviceData(PROFILE.id);
+    expect(device.chapters.map((c) => c.id)).toEqual(['c1', 'c2']);
+    expect(device.week_notes).toEqual(file.week_notes);
+    expect(device.moments).toEqual([framing('m1')]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('writes the backup device data onto the new profile when replacing', async () => {
+    const restored = { ...PROFILE, id: 'p2' };
+    fetchMock.mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => restored,
+      text: async () => JSON.stringify(restored),
+    } as Response);
+
+    const file = backup({
+      chapters: [chapter('c1')],
+      moments: [framing('m1')],
+      quote_library: library({ favorites: ['q1'] }),
+    });
+    const profile = await applyRestore(planRestore(file, 'replace', { goals: [], reflections: [], device: NO_DEVICE_DATA }), PROFILE);
+
+    expect(profile.id).toBe('p2');
+    expect(await readDeviceData('p2')).toEqual({
+      chapters: file.chapters,
+      week_notes: [],
+      moments: file.moments,
+      quote_library: file.quote_library,
+    });
+    expect(await readDeviceData(PROFILE.id)).toEqual(NO_DEVICE_DATA);
+  });
+});
@@ -0,0 +1,139 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CreateGoalInput } from '../app/lib/models';
+import { store } from '../app/lib/store';
+import { createGoal, flushQueue, getPendingCount, retryFailed, updateGoalStatus } from '../app/lib/sync';
+
+const USER = 'user-1';
+
+const INPUT: CreateGoalInput = {
+  user_id: USER,
+  title: 'Learn the cello',
+  description: '',
+  category: 'personal',
+  priority: 'medium',
+  target_date: null,
+};
+
+const fetchMock = jest.fn();
+global.fetch = fetchMock;
+
+const respond = (status: number, body: unknown) =>
+  Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  } as Response);
+
+const offline = () => Promise.reject(new TypeError('Network request failed'));
+
+// A backend holding goals in memory, deduping creates on their Idempotency-Key like the real one.
+const fakeServer = () => {
+  const goals = new Map<string, Record<string, unknown>>();
+  const byKey = new Map<string, string>();
+
+  return (url: string, init: RequestInit) => {
+    const path = new URL(url).pathname;
+    const body = init.body ? JSON.parse(init.body as string) : undefined;
+    const key = (init.headers as Record<string, string>)['Idempotency-Key'];
+
+    if (init.method === 'POST' && path === '/api/goals') {
+      const existing = key ? byKey.get(key) : undefined;
+      if (existing) return respond(200, goals.get(existing));
+      const id = `goal-${goals.size + 1}`;
+      const { user_id: _userId, ...fields } = body;
+      const goal = { ...fields, id, status: body.status ?? 'active', created_at: '2024-01-01T00:00:00.000Z', updated_at: '2024-01-01T00:00:00.000Z' };
+      goals.set(id, goal);
+      if (key) byKey.set(key, id);
+      return respond(200, goal);
+    }
+
+    const match = /^\/api\/goals\/(.+)$/.exec(path);
+    if (init.method === 'PUT' && match && goals.has(match[1])) {
+      const goal = { ...goals.get(match[1]), ...body };
+      goals.set(match[1], goal);
+      return respond(200, goal);
+    }
+
+    return respond(404, { detail: 'Not found' });
+  };
+};
+
+const requests = () =>
+  fetchMock.mock.calls.map(([url, init]: [string, RequestInit]) => `${init.method} ${new URL(url).pathname}`);
+
+const idempotencyKeys = () =>
+  fetchMock.mock.calls.map(([, init]: [string, RequestInit]) => (init.headers as Record<string, string>)['Idempotency-Key']);
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  fetchMock.mockReset();
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('sync queue', () => {
+  it('keeps writes made offline and replays them in order once back online', async () => {
+    fetchMock.mockImplementation(offline);
+    expect(await createGoal(INPUT)).toBe('pending');
+    const [local] = await store.getGoals(USER);
+    expect(local.id).toMatch(/^local-/);
+
+    await updateGoalStatus(USER, local.id, 'completed');
+    expect(await getPendingCount(USER)).toBe(2);
+
+    fetchMock.mockReset();
+    fetchMock.mockImplementation(fakeServer());
+    await flushQueue();
+
+    // The status change queued against the local id follows the goal to its server id.
+    expect(requests()).toEqual(['POST /api/goals', 'PUT /api/goals/goal-1']);
+    expect(await getPendingCount(USER)).toBe(0);
+    expect(await store.getGoals(USER)).toEqual([
+      expect.objectContaining({ id: 'goal-1', status: 'completed', sync_status: 'synced' }),
+    ]);
+  });
+
+  it('replays a create whose response was lost with the same idempotency key', async () => {
+    const server = fakeServer();
+    // The server stores the goal, but the answer never arrives.
+    fetchMock.mockImplementationOnce((url, init) => server(url, init).then(offline));
+    expect(await createGoal(INPUT)).toBe('pending');
+
+    fetchMock.mockImplementation(server);
+    await flushQueue();
+
+    const keys = idempotencyKeys();
+    expect(keys).toHaveLength(2);
+    expect(keys[0]).toMatch(/^local-/);
+    expect(keys[1]).toBe(keys[0]);
+    expect(await store.getGoals(USER)).toEqual([expect.objectContaining({ id: 'goal-1', sync_status: 'synced' })]);
+  });
+
+  it('retries a create rejected as malformed with the same idempotency key', async () => {
+    const server = fakeServer();
+    fetchMock.mockImplementationOnce((url, init) => server(url, init).then(() => respond(200, { id: 42 })));
+    expect(await createGoal(INPUT)).toBe('failed');
+    expect(await getPendingCount(USER)).toBe(0);
+
+    fetchMock.mockImplementation(server);
+    await retryFailed();
+
+    const keys = idempotencyKeys();
+    expect(keys).toHaveLength(2);
+    expect(keys[1]).toBe(keys[0]);
+    expect(await store.getGoals(USER)).toEqual([expect.objectContaining({ id: 'goal-1', sync_status: 'synced' })]);
+  });
+
+  it('marks writes the server rejects as failed instead of retrying them', async () => {
+    fetchMock.mockImplementation(() => respond(422, { detail: 'title is required' }));
+    expect(await createGoal(INPUT)).toBe('failed');
+
+    const [goal] = await store.getGoals(USER);
+    expect(goal.sync_error).toContain('title is required');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
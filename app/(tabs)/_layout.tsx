@@ -1,5 +1,6 @@
 import React from 'react';
-import { Tabs } from 'expo-router';
+import { TouchableOpacity } from 'react-native';
+import { Tabs, router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 
 export default function TabLayout() {
@@ -31,6 +32,16 @@ export default function TabLayout() {
           tabBarIcon: ({ focused, color, size }) => (
             <Ionicons name={focused ? 'hourglass' : 'hourglass-outline'} size={size} color={color} />
           ),
+          headerLeft: () => (
+            <TouchableOpacity onPress={() => router.push('/profiles')} style={{ paddingHorizontal: 16 }}>
+              <Ionicons name="people-circle-outline" size={24} color="#D4AF37" />
+            </TouchableOpacity>
+          ),
+          headerRight: () => (
+            <TouchableOpacity onPress={() => router.push('/settings')} style={{ paddingHorizontal: 16 }}>
+              <Ionicons name="settings-outline" size={22} color="#D4AF37" />
+            </TouchableOpacity>
+          ),
         }}
       />
       <Tabs.Screen
@@ -40,6 +51,11 @@ export default function TabLayout() {
           tabBarIcon: ({ focused, color, size }) => (
             <Ionicons name={focused ? 'journal' : 'journal-outline'} size={size} color={color} />
           ),
+          headerRight: () => (
+            <TouchableOpacity onPress={() => router.push('/backup')} style={{ paddingHorizontal: 16 }}>
+              <Ionicons name="download-outline" size={22} color="#D4AF37" />
+            </TouchableOpacity>
+          ),
         }}
       />
       <Tabs.Screen
@@ -11,23 +11,13 @@ import {
   KeyboardAvoidingView,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import Constants from 'expo-constants';
-
-// Get backend URL from environment
-const BACKEND_URL = Constants.expoConfig?.extra?.EXPO_BACKEND_URL || 'http://localhost:8001';
-
-interface Goal {
-  id: string;
-  title: string;
-  description: string;
-  category: 'career' | 'health' | 'personal' | 'financial' | 'relationship';
-  priority: 'low' | 'medium' | 'high';
-  status: 'active' | 'completed' | 'paused';
-  target_date: string;
-  created_at: string;
-  updated_at: string;
-}
+import { Goal } from '../lib/models';
+import { Local, store, StoreLockedError } from '../lib/store';
+import * as sync from '../lib/sync';
+import { useSession } from '../lib/session';
+import SyncBadge from '../components/SyncBadge';
+import DateInput from '../components/DateInput';
+import { formatLocalDate } from '../lib/dates';
 
 const CATEGORIES = [
   { value: 'career', label: 'Career', color: '#4CAF50' },
@@ -45,9 +35,9 @@ const PRIORITIES = [
 
 export default function GoalsScreen() {
   const insets = useSafeAreaInsets();
-  const [goals, setGoals] = useState<Goal[]>([]);
+  const [goals, setGoals] = useState<Local<Goal>[]>([]);
   const [loading, setLoading] = useState(false);
-  const [userProfileId, setUserProfileId] = useState<string | null>(null);
+  const { profileId: userProfileId } = useSession();
   const [showAddForm, setShowAddForm] = useState(false);
 
   // Form states
@@ -55,28 +45,27 @@ export default function GoalsScreen() {
   const [description, setDescription] = useState('');
   const [category, setCategory] = useState<Goal['category']>('personal');
   const [priority, setPriority] = useState<Goal['priority']>('medium');
-  const [targetDate, setTargetDate] = useState('');
+  const [targetDate, setTargetDate] = useState<string | null>('');
 
   // Filter states
   const [statusFilter, setStatusFilter] = useState<'all' | Goal['status']>('all');
   const [categoryFilter, setCategoryFilter] = useState<'all' | Goal['category']>('all');
 
-  useEffect(() => {
-    getUserProfile();
-  }, []);
-
   useEffect(() => {
     if (userProfileId) {
       fetchGoals();
+      return sync.subscribeToSync(loadCachedGoals);
     }
-  }, [userProfileId, statusFilter]);
+  }, [userProfileId]);
 
-  const getUserProfile = async () => {
+  // Also runs on every sync event, so it handles its own errors.
+  const loadCachedGoals = async () => {
+    if (!userProfileId) return;
     try {
-      const profileId = await AsyncStorage.getItem('userProfileId');
-      setUserProfileId(profileId);
+      setGoals(await store.getGoals(userProfileId));
     } catch (error) {
-      console.error('Error getting user profile:', error);
+      // Relocked in the meantime: the lock screen takes over, nothing is shown here.
+      if (!(error instanceof StoreLockedError)) console.error('Error loading goals:', error);
     }
   };
 
@@ -85,12 +74,9 @@ export default function GoalsScreen() {
 
     setLoading(true);
     try {
-      const statusParam = statusFilter !== 'all' ? `?status=${statusFilter}` : '';
-      const response = await fetch(`${BACKEND_URL}/api/goals/${userProfileId}${statusParam}`);
-      if (response.ok) {
-        const data = await response.json();
-        setGoals(data);
-      }
+      // Show what's on the device straight away, then reconcile with the server.
+      await loadCachedGoals();
+      setGoals(await sync.refreshGoals(userProfileId));
     } catch (error) {
       console.error('Error fetching goals:', error);
     } finally {
@@ -109,33 +95,36 @@ export default function GoalsScreen() {
       return;
     }
 
+    if (targetDate === null) {
+      Alert.alert('Validation Error', 'Please enter a target date from today onwards, or leave it empty');
+      return;
+    }
+
     setLoading(true);
     try {
-      const goalData = {
+      const syncStatus = await sync.createGoal({
         user_id: userProfileId,
         title: title.trim(),
         description: description.trim(),
         category,
         priority,
         target_date: targetDate || null,
-      };
-
-      const response = await fetch(`${BACKEND_URL}/api/goals`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(goalData),
       });
 
-      if (response.ok) {
+      if (syncStatus === 'synced') {
         Alert.alert('Success', 'Goal created successfully!');
-        resetForm();
-        setShowAddForm(false);
-        fetchGoals();
+      } else if (syncStatus === 'failed') {
+        // Rejected, not offline: waiting won't help, so point at the retry in the list.
+        Alert.alert(
+          'Not Accepted',
+          'The server rejected this goal. It is kept on this device and marked "Sync failed" in your list, where you can tap to retry.'
+        );
       } else {
-        Alert.alert('Error', 'Failed to create goal');
+        Alert.alert('Saved Offline', 'Your goal is saved on this device and will sync when you\'re back online.');
       }
+      resetForm();
+      setShowAddForm(false);
+      loadCachedGoals();
     } catch (error) {
       console.error('Error creating goal:', error);
       Alert.alert('Error', 'Failed to create goal');
@@ -145,21 +134,12 @@ export default function GoalsScreen() {
   };
 
   const updateGoalStatus = async (goalId: string, newStatus: Goal['status']) => {
+    if (!userProfileId) return;
+
     setLoading(true);
     try {
-      const response = await fetch(`${BACKEND_URL}/api/goals/${goalId}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ status: newStatus }),
-      });
-
-      if (response.ok) {
-        fetchGoals();
-      } else {
-        Alert.alert('Error', 'Failed to update goal status');
-      }
+      await sync.updateGoalStatus(userProfileId, goalId, newStatus);
+      loadCachedGoals();
     } catch (error) {
       console.error('Error updating goal:', error);
       Alert.alert('Error', 'Failed to update goal status');
@@ -188,6 +168,10 @@ export default function GoalsScreen() {
 
   const getFilteredGoals = () => {
     let filtered = goals;
+
+    if (statusFilter !== 'all') {
+      filtered = filtered.filter(goal => goal.status === statusFilter);
+    }
     
     if (categoryFilter !== 'all') {
       filtered = filtered.filter(goal => goal.category === categoryFilter);
@@ -196,7 +180,7 @@ export default function GoalsScreen() {
     return filtered;
   };
 
-  const renderGoalCard = (goal: Goal) => (
+  const renderGoalCard = (goal: Local<Goal>) => (
     <View key={goal.id} style={styles.goalCard}>
       <View style={styles.goalHeader}>
         <Text style={styles.goalTitle}>{goal.title}</Text>
@@ -216,7 +200,7 @@ export default function GoalsScreen() {
 
       {goal.target_date && (
         <Text style={styles.goalTargetDate}>
-          Target: {new Date(goal.target_date).toLocaleDateString()}
+          Target: {formatLocalDate(goal.target_date)}
         </Text>
       )}
 
@@ -255,6 +239,8 @@ export default function GoalsScreen() {
           </Text>
         </TouchableOpacity>
       </View>
+
+      <SyncBadge status={goal.sync_status} error={goal.sync_error} onRetry={sync.retryFailed} />
     </View>
   );
 
@@ -403,13 +389,10 @@ export default function GoalsScreen() {
               </View>
             </View>
 
-            <TextInput
-              style={styles.input}
-              placeholder="Target date (YYYY-MM-DD) - optional"
-              placeholderTextColor="#666"
-              value={targetDate}
-              onChangeText={setTargetDate}
-            />
+            <View style={styles.selectorContainer}>
+              <Text style={styles.selectorLabel}>Target date (optional)</Text>
+              <DateInput value={targetDate} onChange={setTargetDate} minimumDate={new Date()} inputStyle={styles.dateInput} />
+            </View>
 
             <View style={styles.formActions}>
               <TouchableOpacity
@@ -627,6 +610,11 @@ const styles = StyleSheet.create({
   textArea: {
     minHeight: 80,
   },
+  dateInput: {
+    backgroundColor: '#0C0C0C',
+    padding: 12,
+    fontSize: 14,
+  },
   selectorContainer: {
     marginBottom: 16,
   },
@@ -1,132 +1,192 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   ScrollView,
   TouchableOpacity,
-  Alert,
   RefreshControl,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { router } from 'expo-router';
-
-const BACKEND_URL = 'https://mortality-app.preview.emergentagent.com';
-
-interface UserProfile {
-  id: string;
-  birth_date: string;
-  life_expectancy: number;
-  name: string;
-  country?: string;
-}
-
-interface MortalityStats {
-  days_lived: number;
-  days_remaining: number;
-  weeks_lived: number;
-  weeks_remaining: number;
-  life_percentage: number;
-  current_age: number;
-  expected_death_date: string;
-}
-
-interface Quote {
-  id: string;
-  text: string;
-  author: string;
-}
+import { router, useFocusEffect } from 'expo-router';
+import { LifeChapter, MomentFraming, Quote, QuoteLibrary } from '../lib/models';
+import { useSession } from '../lib/session';
+import { StoreLockedError } from '../lib/store';
+import { cardStyles } from '../lib/theme';
+import { getChapters } from '../lib/chapters';
+import { getTodaysQuote, showNextQuote, toggleFavorite } from '../lib/quoteLibrary';
+import { getFramings } from '../lib/moments';
+import Countdown from '../components/Countdown';
+import LifeCalendar from '../components/LifeCalendar';
+import Milestones from '../components/Milestones';
+import RemainingMoments from '../components/RemainingMoments';
+import { ProgressShareCard, QuoteShareCard, useShareCard } from '../components/ShareCards';
 
 export default function HomeScreen() {
-  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
-  const [mortalityStats, setMortalityStats] = useState<MortalityStats | null>(null);
+  const {
+    status,
+    profileId,
+    profile: userProfile,
+    stats: mortalityStats,
+    error,
+    notFoundOnServer,
+    refresh,
+    reuploadProfile,
+    deleteAccount,
+  } = useSession();
   const [quote, setQuote] = useState<Quote | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [quoteLibrary, setQuoteLibrary] = useState<QuoteLibrary | null>(null);
+  const [chapters, setChapters] = useState<LifeChapter[]>([]);
+  const [framings, setFramings] = useState<MomentFraming[]>([]);
   const [refreshing, setRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [resolving, setResolving] = useState(false);
+  const shareCard = useShareCard();
 
   useEffect(() => {
-    initializeUser();
-  }, []);
+    if (status === 'signedOut') {
+      router.replace('/onboarding');
+    }
+  }, [status]);
 
-  const initializeUser = async () => {
+  const loadQuote = useCallback(async () => {
     try {
-      const storedProfileId = await AsyncStorage.getItem('userProfileId');
-      const onboardingCompleted = await AsyncStorage.getItem('onboardingCompleted');
-      
-      if (storedProfileId && onboardingCompleted === 'true') {
-        const success = await fetchUserData(storedProfileId);
-        if (!success) {
-          await AsyncStorage.removeItem('userProfileId');
-          await AsyncStorage.removeItem('onboardingCompleted');
-          router.replace('/onboarding');
-        }
-      } else {
-        router.replace('/onboarding');
-      }
-    } catch (error) {
-      console.error('Error initializing user:', error);
-      setError('Failed to load user data. Please try again.');
-      setLoading(false);
+      const shown = await getTodaysQuote(profileId);
+      setQuote(shown.quote);
+      setQuoteLibrary(shown.library);
+    } catch (quoteError) {
+      console.error('Error loading quote:', quoteError);
     }
-  };
+  }, [profileId]);
 
-  const fetchUserData = async (profileId: string): Promise<boolean> => {
-    try {
-      const [profileResponse, mortalityResponse, quoteResponse] = await Promise.all([
-        fetch(`${BACKEND_URL}/api/profile/${profileId}`),
-        fetch(`${BACKEND_URL}/api/mortality/${profileId}`),
-        fetch(`${BACKEND_URL}/api/quotes/daily`)
-      ]);
+  // Chapters, framings and mantras are edited on their own screens; pick up changes when
+  // coming back. The quote is re-read too, so it turns over when the day does.
+  useFocusEffect(
+    useCallback(() => {
+      loadQuote();
+      if (!profileId) return;
+      getChapters(profileId)
+        .then(setChapters)
+        .catch((chaptersError) => console.error('Error loading chapters:', chaptersError));
+      getFramings(profileId)
+        .then(setFramings)
+        .catch((framingsError) => {
+          // Sealed and relocked while away: keep what is on screen until the passcode is entered.
+          if (!(framingsError instanceof StoreLockedError)) {
+            console.error('Error loading framings:', framingsError);
+          }
+        });
+    }, [profileId, loadQuote])
+  );
 
-      if (profileResponse.ok && mortalityResponse.ok && quoteResponse.ok) {
-        const [profileData, mortalityData, quoteData] = await Promise.all([
-          profileResponse.json(),
-          mortalityResponse.json(),
-          quoteResponse.json()
-        ]);
+  // Stable, so the memoized calendar rows don't re-render with every screen update.
+  const openWeek = useCallback(
+    (index: number) => router.push({ pathname: '/week', params: { index: String(index) } }),
+    []
+  );
 
-        setUserProfile(profileData);
-        setMortalityStats(mortalityData);
-        setQuote(quoteData);
-        setError(null);
-        return true;
-      } else {
-        console.error('Failed to fetch user data');
-        return false;
-      }
+  const onRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await Promise.all([refresh(), loadQuote()]);
     } catch (error) {
-      console.error('Error fetching user data:', error);
-      return false;
+      console.error('Error refreshing user data:', error);
     } finally {
-      setLoading(false);
       setRefreshing(false);
     }
   };
 
-  const onRefresh = async () => {
-    setRefreshing(true);
-    const profileId = await AsyncStorage.getItem('userProfileId');
-    if (profileId) {
-      await fetchUserData(profileId);
+  const nextQuote = async () => {
+    if (!profileId) return;
+    try {
+      const shown = await showNextQuote(profileId);
+      setQuote(shown.quote);
+      setQuoteLibrary(shown.library);
+    } catch (quoteError) {
+      console.error('Error loading next quote:', quoteError);
+    }
+  };
+
+  const toggleQuoteFavorite = async () => {
+    if (!profileId || !quote) return;
+    try {
+      setQuoteLibrary(await toggleFavorite(profileId, quote.id));
+    } catch (quoteError) {
+      console.error('Error saving favorite:', quoteError);
+    }
+  };
+
+  const shareQuote = async () => {
+    if (!quote) return;
+    try {
+      await shareCard.share(<QuoteShareCard quote={quote} />, `"${quote.text}" — ${quote.author}`);
+    } catch (shareError) {
+      console.error('Error sharing quote:', shareError);
     }
   };
 
-  const refreshQuote = async () => {
+  const shareProgress = async () => {
+    if (!userProfile || !mortalityStats) return;
     try {
-      const response = await fetch(`${BACKEND_URL}/api/quotes/daily`);
-      if (response.ok) {
-        const quoteData = await response.json();
-        setQuote(quoteData);
+      await shareCard.share(
+        <ProgressShareCard profile={userProfile} stats={mortalityStats} />,
+        `I'm ${mortalityStats.life_percentage.toFixed(1)}% through my life: week ${(
+          mortalityStats.weeks_lived + 1
+        ).toLocaleString()} of ${(mortalityStats.weeks_lived + mortalityStats.weeks_remaining).toLocaleString()}.`
+      );
+    } catch (shareError) {
+      console.error('Error sharing life progress:', shareError);
+    }
+  };
+
+  const reupload = async () => {
+    setResolving(true);
+    try {
+      const result = await reuploadProfile();
+      if (!result.ok) {
+        Alert.alert('Upload Failed', `Could not create your profile on the server: ${result.error.message}`);
+        return;
       }
-    } catch (error) {
-      console.error('Error refreshing quote:', error);
+      // Through the gate again: a passcode, if set, is asked for under the new profile.
+      router.replace('/');
+    } catch (uploadError) {
+      console.error('Error uploading profile:', uploadError);
+      Alert.alert('Error', 'Failed to upload your profile. Please try again.');
+    } finally {
+      setResolving(false);
     }
   };
 
-  if (loading) {
+  const removeProfile = async () => {
+    setResolving(true);
+    try {
+      const result = await deleteAccount();
+      if (!result.ok) {
+        Alert.alert('Nothing Was Removed', result.error.message);
+        return;
+      }
+      router.replace('/');
+    } catch (removeError) {
+      console.error('Error removing profile:', removeError);
+      Alert.alert('Error', 'Failed to remove the profile. Please try again.');
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  const confirmRemove = () => {
+    Alert.alert(
+      'Remove From This Device?',
+      `This permanently deletes ${userProfile?.name ?? 'this profile'}'s goals, reflections, notes and passcode from this device, including anything that never synced. Export a backup first if you may want them back.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: removeProfile },
+      ]
+    );
+  };
+
+  if (status === 'loading') {
     return (
       <SafeAreaView style={styles.loadingContainer}>
         <Ionicons name="hourglass" size={48} color="#D4AF37" />
@@ -135,137 +195,163 @@ export default function HomeScreen() {
     );
   }
 
+  if (notFoundOnServer) {
+    return (
+      <SafeAreaView style={styles.errorContainer}>
+        <Ionicons name="cloud-offline-outline" size={48} color="#FF6B6B" />
+        <Text style={styles.errorText}>
+          {userProfile?.name ?? 'This profile'} was not found on the server. Everything on this device has been
+          kept. If the server was reset, upload the profile again; if you use another server, check the app is
+          pointed at it and retry.
+        </Text>
+        <TouchableOpacity style={styles.retryButton} onPress={refresh} disabled={resolving}>
+          <Text style={styles.retryButtonText}>Retry</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={reupload} disabled={resolving}>
+          <Text style={styles.secondaryButtonText}>{resolving ? 'Working...' : 'Upload Again'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => router.push('/backup')} disabled={resolving}>
+          <Text style={styles.secondaryButtonText}>Export a Backup</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={confirmRemove} disabled={resolving}>
+          <Text style={[styles.secondaryButtonText, styles.dangerText]}>Remove From This Device</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    );
+  }
+
   if (error) {
     return (
       <SafeAreaView style={styles.errorContainer}>
         <Ionicons name="alert-circle" size={48} color="#FF6B6B" />
         <Text style={styles.errorText}>{error}</Text>
-        <TouchableOpacity style={styles.retryButton} onPress={initializeUser}>
+        <TouchableOpacity style={styles.retryButton} onPress={refresh}>
           <Text style={styles.retryButtonText}>Retry</Text>
         </TouchableOpacity>
       </SafeAreaView>
     );
   }
 
-  return (
-    <SafeAreaView style={styles.container}>
-      <ScrollView 
-        style={styles.scrollView}
-        refreshControl={
-          <RefreshControl
-            refreshing={refreshing}
-            onRefresh={onRefresh}
-            colors={['#D4AF37']}
-            tintColor="#D4AF37"
-          />
-        }
-      >
-        {/* Quote Section */}
-        {quote && (
-          <View style={styles.quoteContainer}>
-            <View style={styles.quoteHeader}>
-              <Text style={styles.quoteTitle}>Daily Wisdom</Text>
-              <TouchableOpacity onPress={refreshQuote} style={styles.refreshButton}>
-                <Ionicons name="refresh" size={20} color="#D4AF37" />
+  const refreshControl = (
+    <RefreshControl
+      refreshing={refreshing}
+      onRefresh={onRefresh}
+      colors={['#D4AF37']}
+      tintColor="#D4AF37"
+    />
+  );
+
+  const header = (
+    <>
+      {/* Quote Section */}
+      {quote && (
+        <View style={cardStyles.quoteContainer}>
+          <View style={styles.quoteHeader}>
+            <Text style={cardStyles.quoteTitle}>Daily Wisdom</Text>
+            <View style={styles.quoteActions}>
+              {profileId && (
+                <>
+                  <TouchableOpacity onPress={toggleQuoteFavorite} style={styles.refreshButton}>
+                    <Ionicons
+                      name={quoteLibrary?.favorites.includes(quote.id) ? 'heart' : 'heart-outline'}
+                      size={20}
+                      color="#D4AF37"
+                    />
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={nextQuote} style={styles.refreshButton}>
+                    <Ionicons name="refresh" size={20} color="#D4AF37" />
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => router.push('/quotes')} style={styles.refreshButton}>
+                    <Ionicons name="library-outline" size={20} color="#D4AF37" />
+                  </TouchableOpacity>
+                </>
+              )}
+              <TouchableOpacity onPress={shareQuote} style={styles.refreshButton} disabled={shareCard.sharing}>
+                <Ionicons name="share-outline" size={20} color="#D4AF37" />
               </TouchableOpacity>
             </View>
-            <Text style={styles.quoteText}>"{quote.text}"</Text>
-            <Text style={styles.quoteAuthor}>— {quote.author}</Text>
           </View>
-        )}
+          <Text style={cardStyles.quoteText}>&quot;{quote.text}&quot;</Text>
+          <Text style={cardStyles.quoteAuthor}>— {quote.author}</Text>
+        </View>
+      )}
 
-        {/* Mortality Stats */}
-        {mortalityStats && userProfile && (
-          <View style={styles.statsContainer}>
-            <Text style={styles.sectionTitle}>Your Life Statistics</Text>
-            
-            <View style={styles.statRow}>
-              <View style={styles.statItem}>
-                <Text style={styles.statNumber}>{mortalityStats.days_lived.toLocaleString()}</Text>
-                <Text style={styles.statLabel}>Days Lived</Text>
-              </View>
-              <View style={styles.statItem}>
-                <Text style={styles.statNumber}>{mortalityStats.days_remaining.toLocaleString()}</Text>
-                <Text style={styles.statLabel}>Days Remaining</Text>
-              </View>
+      {/* Mortality Stats */}
+      {mortalityStats && userProfile && (
+        <View style={cardStyles.statsContainer}>
+          <Text style={cardStyles.sectionTitle}>Your Life Statistics</Text>
+          
+          <View style={styles.statRow}>
+            <View style={styles.statItem}>
+              <Text style={styles.statNumber}>{mortalityStats.days_lived.toLocaleString()}</Text>
+              <Text style={styles.statLabel}>Days Lived</Text>
             </View>
-
-            <View style={styles.progressContainer}>
-              <Text style={styles.progressLabel}>Life Progress: {mortalityStats.life_percentage.toFixed(1)}%</Text>
-              <View style={styles.progressBar}>
-                <View 
-                  style={[
-                    styles.progressFill, 
-                    { width: `${Math.min(mortalityStats.life_percentage, 100)}%` }
-                  ]} 
-                />
-              </View>
+            <View style={styles.statItem}>
+              <Text style={styles.statNumber}>{mortalityStats.days_remaining.toLocaleString()}</Text>
+              <Text style={styles.statLabel}>Days Remaining</Text>
             </View>
+          </View>
+
+          <View style={styles.countdownContainer}>
+            <Text style={styles.countdownTitle}>Time Remaining</Text>
+            <Countdown />
+          </View>
 
-            <View style={styles.additionalStats}>
-              <Text style={styles.additionalStatText}>
-                Current Age: {mortalityStats.current_age} years
-              </Text>
-              <Text style={styles.additionalStatText}>
-                Life Expectancy: {userProfile.life_expectancy} years
-              </Text>
+          <View style={styles.progressContainer}>
+            <Text style={cardStyles.progressLabel}>Life Progress: {mortalityStats.life_percentage.toFixed(1)}%</Text>
+            <View style={cardStyles.progressBar}>
+              <View 
+                style={[
+                  cardStyles.progressFill, 
+                  { width: `${Math.min(mortalityStats.life_percentage, 100)}%` }
+                ]} 
+              />
             </View>
           </View>
-        )}
 
-        {/* Life Calendar */}
-        {mortalityStats && userProfile && (
-          <View style={styles.calendarContainer}>
-            <Text style={styles.calendarTitle}>Life in Weeks</Text>
-            <Text style={styles.calendarSubtitle}>
-              Each dot represents one week of your life
+          <TouchableOpacity style={styles.shareButton} onPress={shareProgress} disabled={shareCard.sharing}>
+            <Ionicons name="share-outline" size={16} color="#D4AF37" />
+            <Text style={styles.shareButtonText}>Share My Progress</Text>
+          </TouchableOpacity>
+
+          <View style={styles.additionalStats}>
+            <Text style={styles.additionalStatText}>
+              Current Age: {mortalityStats.current_age} years
+            </Text>
+            <Text style={styles.additionalStatText}>
+              Life Expectancy: {userProfile.life_expectancy} years
             </Text>
-            
-            <View style={styles.calendar}>
-              {Array.from({ length: 20 }, (_, rowIndex) => (
-                <View key={rowIndex} style={styles.calendarRow}>
-                  <Text style={styles.yearLabel}>{rowIndex + 1}</Text>
-                  <View style={styles.weekRow}>
-                    {Array.from({ length: 52 }, (_, weekIndex) => {
-                      const weekNumber = rowIndex * 52 + weekIndex + 1;
-                      const isLived = weekNumber <= mortalityStats.weeks_lived;
-                      const isCurrent = weekNumber === mortalityStats.weeks_lived + 1;
-                      const isRemaining = weekNumber > mortalityStats.weeks_lived + 1;
-                      
-                      return (
-                        <View
-                          key={weekIndex}
-                          style={[
-                            styles.weekDot,
-                            isLived && styles.weekDotLived,
-                            isCurrent && styles.weekDotCurrent,
-                            isRemaining && styles.weekDotRemaining,
-                          ]}
-                        />
-                      );
-                    })}
-                  </View>
-                </View>
-              ))}
-            </View>
-            
-            <View style={styles.calendarLegend}>
-              <View style={styles.legendItem}>
-                <View style={[styles.weekDot, styles.weekDotLived]} />
-                <Text style={styles.legendText}>Lived</Text>
-              </View>
-              <View style={styles.legendItem}>
-                <View style={[styles.weekDot, styles.weekDotCurrent]} />
-                <Text style={styles.legendText}>Current</Text>
-              </View>
-              <View style={styles.legendItem}>
-                <View style={[styles.weekDot, styles.weekDotRemaining]} />
-                <Text style={styles.legendText}>Remaining</Text>
-              </View>
-            </View>
           </View>
-        )}
-      </ScrollView>
+        </View>
+      )}
+
+      {mortalityStats && (
+        <RemainingMoments framings={framings} stats={mortalityStats} onManage={() => router.push('/moments')} />
+      )}
+
+      {userProfile && <Milestones birthDate={userProfile.birth_date} lifeExpectancy={userProfile.life_expectancy} />}
+    </>
+  );
+
+  // The life calendar is a virtualized list, so it hosts the rest of the screen as its header.
+  return (
+    <SafeAreaView style={styles.container}>
+      {userProfile ? (
+        <LifeCalendar
+          birthDate={userProfile.birth_date}
+          lifeExpectancy={userProfile.life_expectancy}
+          chapters={chapters}
+          onManageChapters={() => router.push('/chapters')}
+          onSelectWeek={openWeek}
+          header={header}
+          refreshControl={refreshControl}
+        />
+      ) : (
+        <ScrollView style={styles.scrollView} refreshControl={refreshControl}>
+          {header}
+        </ScrollView>
+      )}
+      {shareCard.host}
     </SafeAreaView>
   );
 }
@@ -314,13 +400,17 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
-  quoteContainer: {
-    margin: 16,
-    padding: 20,
-    backgroundColor: '#1A1A1A',
-    borderRadius: 12,
-    borderLeftWidth: 4,
-    borderLeftColor: '#D4AF37',
+  secondaryButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+  secondaryButtonText: {
+    color: '#D4AF37',
+    fontSize: 16,
+  },
+  dangerText: {
+    color: '#FF6B6B',
   },
   quoteHeader: {
     flexDirection: 'row',
@@ -328,38 +418,25 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 12,
   },
-  quoteTitle: {
-    color: '#D4AF37',
-    fontSize: 16,
-    fontWeight: 'bold',
+  quoteActions: {
+    flexDirection: 'row',
+    gap: 12,
   },
   refreshButton: {
     padding: 4,
   },
-  quoteText: {
-    color: '#FFFFFF',
-    fontSize: 16,
-    fontStyle: 'italic',
-    lineHeight: 24,
+  shareButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 8,
     marginBottom: 8,
   },
-  quoteAuthor: {
-    color: '#CCCCCC',
-    fontSize: 14,
-    textAlign: 'right',
-  },
-  statsContainer: {
-    margin: 16,
-    padding: 20,
-    backgroundColor: '#1A1A1A',
-    borderRadius: 12,
-  },
-  sectionTitle: {
+  shareButtonText: {
     color: '#D4AF37',
-    fontSize: 20,
-    fontWeight: 'bold',
-    marginBottom: 16,
-    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '600',
   },
   statRow: {
     flexDirection: 'row',
@@ -380,25 +457,22 @@ const styles = StyleSheet.create({
     color: '#CCCCCC',
     fontSize: 14,
   },
-  progressContainer: {
-    marginBottom: 16,
+  countdownContainer: {
+    paddingVertical: 16,
+    marginBottom: 20,
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: '#2A2A2A',
   },
-  progressLabel: {
-    color: '#FFFFFF',
-    fontSize: 16,
+  countdownTitle: {
+    color: '#D4AF37',
+    fontSize: 14,
     fontWeight: 'bold',
-    marginBottom: 8,
     textAlign: 'center',
+    marginBottom: 12,
   },
-  progressBar: {
-    height: 8,
-    backgroundColor: '#2A2A2A',
-    borderRadius: 4,
-    overflow: 'hidden',
-  },
-  progressFill: {
-    height: '100%',
-    backgroundColor: '#D4AF37',
+  progressContainer: {
+    marginBottom: 16,
   },
   additionalStats: {
     alignItems: 'center',
@@ -408,73 +482,4 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginBottom: 4,
   },
-  calendarContainer: {
-    margin: 16,
-    padding: 20,
-    backgroundColor: '#1A1A1A',
-    borderRadius: 12,
-  },
-  calendarTitle: {
-    color: '#D4AF37',
-    fontSize: 18,
-    fontWeight: 'bold',
-    textAlign: 'center',
-    marginBottom: 8,
-  },
-  calendarSubtitle: {
-    color: '#CCCCCC',
-    fontSize: 12,
-    textAlign: 'center',
-    marginBottom: 16,
-  },
-  calendar: {
-    alignItems: 'center',
-  },
-  calendarRow: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    marginBottom: 2,
-  },
-  yearLabel: {
-    color: '#CCCCCC',
-    fontSize: 10,
-    width: 20,
-    textAlign: 'center',
-    marginRight: 8,
-  },
-  weekRow: {
-    flexDirection: 'row',
-    flex: 1,
-  },
-  weekDot: {
-    width: 6,
-    height: 6,
-    borderRadius: 3,
-    backgroundColor: '#2A2A2A',
-    marginHorizontal: 1,
-  },
-  weekDotLived: {
-    backgroundColor: '#D4AF37',
-  },
-  weekDotCurrent: {
-    backgroundColor: '#FF6B6B',
-  },
-  weekDotRemaining: {
-    backgroundColor: '#4A4A4A',
-  },
-  calendarLegend: {
-    flexDirection: 'row',
-    justifyContent: 'center',
-    marginTop: 16,
-    gap: 16,
-  },
-  legendItem: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 4,
-  },
-  legendText: {
-    color: '#CCCCCC',
-    fontSize: 12,
-  },
 });
@@ -11,24 +11,11 @@ import {
   KeyboardAvoidingView,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import Constants from 'expo-constants';
-
-// Get backend URL from environment
-const BACKEND_URL = Constants.expoConfig?.extra?.EXPO_BACKEND_URL || 'http://localhost:8001';
-
-interface Reflection {
-  id: string;
-  type: 'daily' | 'weekly' | 'monthly';
-  date: string;
-  mood_score: number;
-  productivity_score: number;
-  gratitude_items: string[];
-  lessons_learned: string[];
-  goals_progress: string[];
-  challenges_faced: string[];
-  created_at: string;
-}
+import { Reflection } from '../lib/models';
+import { Local, store, StoreLockedError } from '../lib/store';
+import * as sync from '../lib/sync';
+import { useSession } from '../lib/session';
+import SyncBadge from '../components/SyncBadge';
 
 const DAILY_QUESTIONS = [
   'What are three things you\'re grateful for today?',
@@ -53,31 +40,30 @@ const MONTHLY_QUESTIONS = [
 export default function ReflectScreen() {
   const insets = useSafeAreaInsets();
   const [activeTab, setActiveTab] = useState<'daily' | 'weekly' | 'monthly'>('daily');
-  const [reflections, setReflections] = useState<Reflection[]>([]);
+  const [reflections, setReflections] = useState<Local<Reflection>[]>([]);
   const [loading, setLoading] = useState(false);
-  const [userProfileId, setUserProfileId] = useState<string | null>(null);
+  const { profileId: userProfileId } = useSession();
 
   // Form states
   const [moodScore, setMoodScore] = useState(3);
   const [productivityScore, setProductivityScore] = useState(3);
   const [responses, setResponses] = useState<string[]>(['', '', '', '']);
 
-  useEffect(() => {
-    getUserProfile();
-  }, []);
-
   useEffect(() => {
     if (userProfileId) {
       fetchReflections();
+      return sync.subscribeToSync(loadCachedReflections);
     }
-  }, [userProfileId, activeTab]);
+  }, [userProfileId]);
 
-  const getUserProfile = async () => {
+  // Subscribed to sync events too, where nothing would catch a rejection.
+  const loadCachedReflections = async () => {
+    if (!userProfileId) return;
     try {
-      const profileId = await AsyncStorage.getItem('userProfileId');
-      setUserProfileId(profileId);
+      setReflections(await store.getReflections(userProfileId));
     } catch (error) {
-      console.error('Error getting user profile:', error);
+      // A locked store means the lock screen is up; the list refills after unlocking.
+      if (!(error instanceof StoreLockedError)) console.error('Error loading reflections:', error);
     }
   };
 
@@ -86,11 +72,9 @@ export default function ReflectScreen() {
 
     setLoading(true);
     try {
-      const response = await fetch(`${BACKEND_URL}/api/reflections/${userProfileId}?type=${activeTab}`);
-      if (response.ok) {
-        const data = await response.json();
-        setReflections(data);
-      }
+      // Show what's on the device straight away, then reconcile with the server.
+      await loadCachedReflections();
+      setReflections(await sync.refreshReflections(userProfileId));
     } catch (error) {
       console.error('Error fetching reflections:', error);
     } finally {
@@ -115,7 +99,7 @@ export default function ReflectScreen() {
 
     setLoading(true);
     try {
-      const reflectionData = {
+      const syncStatus = await sync.createReflection({
         user_id: userProfileId,
         type: activeTab,
         mood_score: moodScore,
@@ -124,25 +108,23 @@ export default function ReflectScreen() {
         lessons_learned: activeTab === 'daily' ? [responses[1]] : responses.slice(0, questions.length),
         goals_progress: activeTab === 'daily' ? [responses[2]] : [],
         challenges_faced: [],
-      };
-
-      const response = await fetch(`${BACKEND_URL}/api/reflections`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(reflectionData),
       });
 
-      if (response.ok) {
+      if (syncStatus === 'synced') {
         Alert.alert('Success', 'Reflection saved successfully!');
-        setResponses(['', '', '', '']);
-        setMoodScore(3);
-        setProductivityScore(3);
-        fetchReflections();
+      } else if (syncStatus === 'failed') {
+        // Rejected, not offline: waiting won't help, so point at the retry in the list.
+        Alert.alert(
+          'Not Accepted',
+          'The server rejected this reflection. It is kept on this device and marked "Sync failed" in your list, where you can tap to retry.'
+        );
       } else {
-        Alert.alert('Error', 'Failed to save reflection');
+        Alert.alert('Saved Offline', 'Your reflection is saved on this device and will sync when you\'re back online.');
       }
+      setResponses(['', '', '', '']);
+      setMoodScore(3);
+      setProductivityScore(3);
+      loadCachedReflections();
     } catch (error) {
       console.error('Error submitting reflection:', error);
       Alert.alert('Error', 'Failed to save reflection');
@@ -192,6 +174,7 @@ export default function ReflectScreen() {
   );
 
   const questions = getQuestionsForType();
+  const visibleReflections = reflections.filter((reflection) => reflection.type === activeTab);
 
   return (
     <KeyboardAvoidingView 
@@ -255,10 +238,10 @@ export default function ReflectScreen() {
           </Text>
         </TouchableOpacity>
 
-        {reflections.length > 0 && (
+        {visibleReflections.length > 0 && (
           <View style={styles.historyContainer}>
             <Text style={styles.historyTitle}>Previous Reflections</Text>
-            {reflections.map((reflection) => (
+            {visibleReflections.map((reflection) => (
               <View key={reflection.id} style={styles.reflectionCard}>
                 <Text style={styles.reflectionDate}>
                   {new Date(reflection.date).toLocaleDateString()}
@@ -274,6 +257,11 @@ export default function ReflectScreen() {
                     Productivity: {reflection.productivity_score}/5
                   </Text>
                 )}
+                <SyncBadge
+                  status={reflection.sync_status}
+                  error={reflection.sync_error}
+                  onRetry={sync.retryFailed}
+                />
               </View>
             ))}
           </View>
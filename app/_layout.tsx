@@ -1,17 +1,91 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
+import { startSyncOnReconnect } from './lib/sync';
+import { SessionProvider } from './lib/session';
+import { LockProvider } from './lib/lock';
 
 export default function RootLayout() {
+  useEffect(() => startSyncOnReconnect(), []);
+
   return (
     <SafeAreaProvider>
-      <StatusBar style="light" />
-      <Stack>
-        <Stack.Screen name="index" options={{ headerShown: false }} />
-        <Stack.Screen name="onboarding" options={{ headerShown: false }} />
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-      </Stack>
+      <SessionProvider>
+        <LockProvider>
+          <StatusBar style="light" />
+          <Stack>
+            <Stack.Screen name="index" options={{ headerShown: false }} />
+            <Stack.Screen name="onboarding" options={{ headerShown: false }} />
+            <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+            <Stack.Screen
+              name="backup"
+              options={{
+                title: 'Backup & Export',
+                headerStyle: { backgroundColor: '#1A1A1A' },
+                headerTintColor: '#FFFFFF',
+              }}
+            />
+            <Stack.Screen
+              name="profiles"
+              options={{
+                title: 'Profiles',
+                headerStyle: { backgroundColor: '#1A1A1A' },
+                headerTintColor: '#FFFFFF',
+              }}
+            />
+            <Stack.Screen
+              name="settings"
+              options={{
+                title: 'Settings',
+                headerStyle: { backgroundColor: '#1A1A1A' },
+                headerTintColor: '#FFFFFF',
+              }}
+            />
+            <Stack.Screen
+              name="chapters"
+              options={{
+                title: 'Life Chapters',
+                headerStyle: { backgroundColor: '#1A1A1A' },
+                headerTintColor: '#FFFFFF',
+              }}
+            />
+            <Stack.Screen
+              name="moments"
+              options={{
+                title: "What's Left",
+                headerStyle: { backgroundColor: '#1A1A1A' },
+                headerTintColor: '#FFFFFF',
+              }}
+            />
+            <Stack.Screen
+              name="quotes"
+              options={{
+                title: 'Quotes',
+                headerStyle: { backgroundColor: '#1A1A1A' },
+                headerTintColor: '#FFFFFF',
+              }}
+            />
+            <Stack.Screen
+              name="week"
+              options={{
+                title: 'Week',
+                presentation: 'modal',
+                headerStyle: { backgroundColor: '#1A1A1A' },
+                headerTintColor: '#FFFFFF',
+              }}
+            />
+            <Stack.Screen
+              name="security"
+              options={{
+                title: 'Passcode Lock',
+                headerStyle: { backgroundColor: '#1A1A1A' },
+                headerTintColor: '#FFFFFF',
+              }}
+            />
+          </Stack>
+        </LockProvider>
+      </SessionProvider>
     </SafeAreaProvider>
   );
 }
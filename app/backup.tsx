@@ -0,0 +1,419 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { Backup, exportData, ExportFormat, NO_DEVICE_DATA, readDeviceData } from './lib/export';
+import { applyRestore, pickBackup, planRestore, RestoreError, RestoreMode, RestorePlan } from './lib/restore';
+import { useSession } from './lib/session';
+import { refreshGoals, refreshReflections } from './lib/sync';
+
+const EXPORT_OPTIONS: { format: ExportFormat; title: string; description: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  {
+    format: 'json',
+    title: 'Full Backup (JSON)',
+    description: 'Profile, goals, reflections, week notes, chapters and quotes in one file. Use this to restore later.',
+    icon: 'archive-outline',
+  },
+  {
+    format: 'csv',
+    title: 'Spreadsheets (CSV)',
+    description: 'One file of reflections with mood and productivity scores, one of goals with status and dates.',
+    icon: 'grid-outline',
+  },
+  {
+    format: 'markdown',
+    title: 'Journal (Markdown)',
+    description: 'A readable journal of your reflections, grouped by month.',
+    icon: 'document-text-outline',
+  },
+];
+
+const describeDeviceCounts = ({ device }: RestorePlan) =>
+  [
+    device.weekNotes > 0 && `${device.weekNotes} week notes`,
+    device.chapters > 0 && `${device.chapters} chapters`,
+    device.moments > 0 && `${device.moments} moment framings`,
+    device.mantras > 0 && `${device.mantras} mantras`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+export default function BackupScreen() {
+  const { profile, signIn, replaceProfile } = useSession();
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [backup, setBackup] = useState<Backup | null>(null);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>(profile ? 'merge' : 'replace');
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+  const [planError, setPlanError] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const profileId = profile?.id;
+
+  useEffect(() => {
+    if (!backup) return;
+
+    // Switching mode while a merge plan still waits on the network must not let it land last.
+    let cancelled = false;
+    setPlan(null);
+    setPlanError(null);
+
+    const loadExisting = async () =>
+      profileId && restoreMode === 'merge'
+        ? {
+            goals: await refreshGoals(profileId),
+            reflections: await refreshReflections(profileId),
+            device: await readDeviceData(profileId),
+          }
+        : { goals: [], reflections: [], device: NO_DEVICE_DATA };
+
+    loadExisting()
+      .then((existing) => {
+        if (!cancelled) setPlan(planRestore(backup, restoreMode, existing));
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error('Error comparing backup:', error);
+        setPlanError('Could not compare the backup with your current data. Cancel and choose the file again to retry.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [backup, restoreMode, profileId]);
+
+  const handlePickBackup = async () => {
+    try {
+      const selected = await pickBackup();
+      if (selected) {
+        setBackup(selected);
+      }
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      const message = error instanceof RestoreError ? error.message : 'Could not read that file.';
+      Alert.alert('Invalid Backup', message);
+    }
+  };
+
+  const cancelRestore = () => {
+    setBackup(null);
+    setPlan(null);
+  };
+
+  const handleRestore = async () => {
+    if (!plan) return;
+
+    setRestoring(true);
+    try {
+      const restoredProfile = await applyRestore(plan, profile);
+      cancelRestore();
+      if (plan.mode === 'replace' && profile) {
+        const replaced = await replaceProfile(restoredProfile);
+        Alert.alert(
+          'Restored',
+          replaced.ok
+            ? 'Your backup has replaced your previous profile.'
+            : `Your backup has been restored, but your previous profile could not be deleted (${replaced.error.message}). It is still in the profile switcher.`
+        );
+      } else {
+        if (restoredProfile.id !== profile?.id) {
+          await signIn(restoredProfile);
+        }
+        Alert.alert('Restored', 'Your backup has been restored.');
+      }
+      router.replace('/(tabs)');
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      const message = error instanceof RestoreError ? error.message : 'Failed to restore your backup. Please try again.';
+      Alert.alert('Error', message);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const confirmRestore = () => {
+    if (!plan) return;
+    const device = describeDeviceCounts(plan);
+    const counts = `${plan.goals.length} goals, ${plan.reflections.length} reflections${device ? `, ${device}` : ''}`;
+    const replacing = plan.mode === 'replace' && profile;
+    Alert.alert(
+      replacing ? 'Replace Your Profile?' : 'Restore Backup?',
+      replacing
+        ? `${profile.name}'s profile, goals, reflections, week notes, chapters and quotes will be permanently deleted from the server and this device, and replaced by ${backup?.profile.name}'s backup with ${counts}.`
+        : `${counts} will be added${profile ? ` to ${profile.name}'s profile` : ''}.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: replacing ? 'Replace' : 'Restore', style: replacing ? 'destructive' : 'default', onPress: handleRestore },
+      ]
+    );
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!profile) {
+      Alert.alert('Error', 'User profile not found');
+      return;
+    }
+
+    setExporting(format);
+    try {
+      await exportData(profile, format);
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      Alert.alert('Error', 'Failed to export your data. Please try again.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <Text style={styles.sectionTitle}>Export</Text>
+        <Text style={styles.sectionDescription}>
+          Your journal belongs to you. Export it at any time and keep it wherever you like.
+        </Text>
+
+        {EXPORT_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.format}
+            style={[styles.optionCard, (exporting !== null || !profile) && styles.optionCardDisabled]}
+            onPress={() => handleExport(option.format)}
+            disabled={exporting !== null || !profile}
+          >
+            <Ionicons name={option.icon} size={28} color="#D4AF37" />
+            <View style={styles.optionText}>
+              <Text style={styles.optionTitle}>{option.title}</Text>
+              <Text style={styles.optionDescription}>
+                {exporting === option.format ? 'Preparing...' : option.description}
+              </Text>
+            </View>
+            <Ionicons name="share-outline" size={20} color="#888" />
+          </TouchableOpacity>
+        ))}
+
+        <Text style={[styles.sectionTitle, styles.sectionSpacing]}>Restore</Text>
+        <Text style={styles.sectionDescription}>
+          Bring back a JSON backup from another phone, a reinstall or the web app.
+        </Text>
+
+        {!backup && (
+          <TouchableOpacity style={styles.optionCard} onPress={handlePickBackup}>
+            <Ionicons name="folder-open-outline" size={28} color="#D4AF37" />
+            <View style={styles.optionText}>
+              <Text style={styles.optionTitle}>Choose Backup File</Text>
+              <Text style={styles.optionDescription}>Nothing changes until you confirm.</Text>
+            </View>
+          </TouchableOpacity>
+        )}
+
+        {backup && (
+          <View style={styles.previewCard}>
+            {profile && (
+              <View style={styles.modeContainer}>
+                {(['merge', 'replace'] as const).map((mode) => (
+                  <TouchableOpacity
+                    key={mode}
+                    style={[styles.modeButton, restoreMode === mode && styles.modeButtonActive]}
+                    onPress={() => setRestoreMode(mode)}
+                  >
+                    <Text style={[styles.modeText, restoreMode === mode && styles.modeTextActive]}>
+                      {mode === 'merge' ? 'Merge' : 'Replace'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            <Text style={styles.previewHint}>
+              {!profile
+                ? 'Sets up a profile on this device from the backup.'
+                : restoreMode === 'merge'
+                  ? 'Adds entries from the backup that you don\'t already have.'
+                  : 'Deletes your current profile, goals, reflections, week notes, chapters and quotes and puts the backup in their place.'}
+            </Text>
+
+            <Text style={styles.previewLine}>
+              Profile: {backup.profile.name}, born {backup.profile.birth_date}
+            </Text>
+            <Text style={styles.previewLine}>
+              Backed up: {new Date(backup.exported_at).toLocaleDateString()}
+            </Text>
+
+            {plan ? (
+              <>
+                <Text style={styles.previewLine}>
+                  Goals: {plan.goals.length} to restore
+                  {plan.skippedGoals > 0 ? `, ${plan.skippedGoals} duplicates skipped` : ''}
+                </Text>
+                <Text style={styles.previewLine}>
+                  Reflections: {plan.reflections.length} to restore
+                  {plan.skippedReflections > 0 ? `, ${plan.skippedReflections} duplicates skipped` : ''}
+                </Text>
+                <Text style={styles.previewLine}>
+                  On this device: {describeDeviceCounts(plan) || 'nothing new'}
+                </Text>
+              </>
+            ) : planError ? (
+              <Text style={styles.previewError}>{planError}</Text>
+            ) : (
+              <Text style={styles.previewLine}>Comparing with your data...</Text>
+            )}
+
+            <View style={styles.previewActions}>
+              <TouchableOpacity style={styles.cancelButton} onPress={cancelRestore} disabled={restoring}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.restoreButton, (!plan || restoring) && styles.restoreButtonDisabled]}
+                onPress={confirmRestore}
+                disabled={!plan || restoring}
+              >
+                <Text style={styles.restoreButtonText}>{restoring ? 'Restoring...' : 'Restore'}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0C0C0C',
+  },
+  scrollView: {
+    flex: 1,
+    padding: 20,
+  },
+  sectionTitle: {
+    color: '#D4AF37',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    color: '#888',
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  optionCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1A1A1A',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  optionCardDisabled: {
+    opacity: 0.6,
+  },
+  optionText: {
+    flex: 1,
+    marginHorizontal: 16,
+  },
+  optionTitle: {
+    color: '#FFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  optionDescription: {
+    color: '#CCC',
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  sectionSpacing: {
+    marginTop: 24,
+  },
+  previewCard: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 40,
+    borderWidth: 1,
+    borderColor: '#D4AF37',
+  },
+  modeContainer: {
+    flexDirection: 'row',
+    backgroundColor: '#0C0C0C',
+    borderRadius: 8,
+    padding: 4,
+    marginBottom: 12,
+  },
+  modeButton: {
+    flex: 1,
+    paddingVertical: 8,
+    alignItems: 'center',
+    borderRadius: 6,
+  },
+  modeButtonActive: {
+    backgroundColor: '#D4AF37',
+  },
+  modeText: {
+    color: '#888',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  modeTextActive: {
+    color: '#0C0C0C',
+  },
+  previewHint: {
+    color: '#888',
+    fontSize: 13,
+    lineHeight: 18,
+    marginBottom: 12,
+  },
+  previewLine: {
+    color: '#FFF',
+    fontSize: 14,
+    marginBottom: 6,
+  },
+  previewError: {
+    color: '#FF6B6B',
+    fontSize: 14,
+    marginBottom: 6,
+  },
+  previewActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#333',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#FFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  restoreButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#D4AF37',
+    alignItems: 'center',
+  },
+  restoreButtonDisabled: {
+    backgroundColor: '#666',
+  },
+  restoreButtonText: {
+    color: '#0C0C0C',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,370 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Switch,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useSession } from './lib/session';
+import { LifeChapter } from './lib/models';
+import {
+  CHAPTER_COLORS,
+  ChapterInput,
+  deleteChapter,
+  getChapters,
+  saveChapter,
+  validateChapter,
+} from './lib/chapters';
+import { formatLocalDate, parseLocalDate } from './lib/dates';
+import DateInput from './components/DateInput';
+
+interface Form {
+  // Set when editing an existing chapter.
+  id?: string;
+  title: string;
+  startDate: string | null;
+  endDate: string | null;
+  ongoing: boolean;
+  color: string;
+}
+
+const MONTH_YEAR: Intl.DateTimeFormatOptions = { month: 'short', year: 'numeric' };
+
+const describeSpan = (chapter: LifeChapter) =>
+  chapter.end_date
+    ? `${formatLocalDate(chapter.start_date, MONTH_YEAR)} – ${formatLocalDate(chapter.end_date, MONTH_YEAR)}`
+    : `Since ${formatLocalDate(chapter.start_date, MONTH_YEAR)}`;
+
+export default function ChaptersScreen() {
+  const { profileId, profile } = useSession();
+  const [chapters, setChapters] = useState<LifeChapter[]>([]);
+  const [form, setForm] = useState<Form | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!profileId) return;
+    getChapters(profileId)
+      .then(setChapters)
+      .catch((error) => console.error('Error loading chapters:', error));
+  }, [profileId]);
+
+  const startNew = () =>
+    setForm({
+      title: '',
+      startDate: '',
+      endDate: '',
+      ongoing: false,
+      // A colour no other chapter uses yet, while there are any left.
+      color: CHAPTER_COLORS.find((color) => !chapters.some((c) => c.color === color)) ?? CHAPTER_COLORS[0],
+    });
+
+  const startEdit = (chapter: LifeChapter) =>
+    setForm({
+      id: chapter.id,
+      title: chapter.title,
+      startDate: chapter.start_date,
+      endDate: chapter.end_date ?? '',
+      ongoing: chapter.end_date === null,
+      color: chapter.color,
+    });
+
+  const updateForm = (changes: Partial<Form>) => setForm((current) => (current ? { ...current, ...changes } : current));
+
+  const handleSave = async () => {
+    if (!form || !profileId || !profile) return;
+
+    const input: ChapterInput = {
+      title: form.title,
+      start_date: form.startDate ?? '',
+      end_date: form.ongoing ? null : form.endDate ?? '',
+      color: form.color,
+    };
+    const invalid = validateChapter(input, profile.birth_date);
+    if (invalid) {
+      Alert.alert('Invalid Chapter', invalid);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      setChapters(await saveChapter(profileId, input, form.id));
+      setForm(null);
+    } catch (error) {
+      console.error('Error saving chapter:', error);
+      Alert.alert('Error', 'Failed to save the chapter. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmDelete = () => {
+    const id = form?.id;
+    if (!id || !profileId) return;
+
+    Alert.alert('Delete Chapter?', `"${form.title}" will be removed from your life calendar.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            setChapters(await deleteChapter(profileId, id));
+            setForm(null);
+          } catch (error) {
+            console.error('Error deleting chapter:', error);
+            Alert.alert('Error', 'Failed to delete the chapter. Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const birth = profile ? parseLocalDate(profile.birth_date) ?? undefined : undefined;
+
+  if (form) {
+    return (
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          <View style={styles.inputContainer}>
+            <Text style={styles.inputLabel}>Name</Text>
+            <TextInput
+              style={styles.textInput}
+              value={form.title}
+              onChangeText={(title) => updateForm({ title })}
+              placeholder="e.g., University, First job, Living abroad"
+              placeholderTextColor="#666"
+            />
+          </View>
+
+          <View style={styles.inputContainer}>
+            <Text style={styles.inputLabel}>Started</Text>
+            <DateInput value={form.startDate} onChange={(startDate) => updateForm({ startDate })} minimumDate={birth} />
+          </View>
+
+          <View style={styles.switchRow}>
+            <Text style={styles.inputLabel}>Still going on</Text>
+            <Switch
+              value={form.ongoing}
+              onValueChange={(ongoing) => updateForm({ ongoing })}
+              trackColor={{ true: '#D4AF37', false: '#333' }}
+            />
+          </View>
+
+          {!form.ongoing && (
+            <View style={styles.inputContainer}>
+              <Text style={styles.inputLabel}>Ended</Text>
+              <DateInput value={form.endDate} onChange={(endDate) => updateForm({ endDate })} minimumDate={birth} />
+              <Text style={styles.inputHelper}>Future dates are fine for chapters you&apos;re planning.</Text>
+            </View>
+          )}
+
+          <View style={styles.inputContainer}>
+            <Text style={styles.inputLabel}>Colour</Text>
+            <View style={styles.colorRow}>
+              {CHAPTER_COLORS.map((color) => (
+                <TouchableOpacity
+                  key={color}
+                  style={[styles.colorSwatch, { backgroundColor: color }, form.color === color && styles.colorSwatchActive]}
+                  onPress={() => updateForm({ color })}
+                />
+              ))}
+            </View>
+          </View>
+
+          <TouchableOpacity
+            style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            <Text style={styles.saveButtonText}>{saving ? 'Saving...' : 'Save Chapter'}</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.cancelButton} onPress={() => setForm(null)} disabled={saving}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+
+          {form.id && (
+            <TouchableOpacity style={styles.deleteButton} onPress={confirmDelete} disabled={saving}>
+              <Ionicons name="trash-outline" size={18} color="#FF6B6B" />
+              <Text style={styles.deleteText}>Delete Chapter</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <Text style={styles.sectionDescription}>
+          Name the eras of your life, past and planned, and they are drawn over your life calendar.
+          Chapters stay on this device.
+        </Text>
+
+        {chapters.map((chapter) => (
+          <TouchableOpacity key={chapter.id} style={styles.chapterCard} onPress={() => startEdit(chapter)}>
+            <View style={[styles.chapterColor, { backgroundColor: chapter.color }]} />
+            <View style={styles.chapterText}>
+              <Text style={styles.chapterTitle}>{chapter.title}</Text>
+              <Text style={styles.chapterDetail}>{describeSpan(chapter)}</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color="#888" />
+          </TouchableOpacity>
+        ))}
+
+        <TouchableOpacity style={styles.addButton} onPress={startNew}>
+          <Ionicons name="add" size={20} color="#D4AF37" />
+          <Text style={styles.addButtonText}>Add Chapter</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0C0C0C',
+  },
+  scrollView: {
+    flex: 1,
+    padding: 20,
+  },
+  sectionDescription: {
+    color: '#888',
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  chapterCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1A1A1A',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  chapterColor: {
+    width: 8,
+    alignSelf: 'stretch',
+    borderRadius: 4,
+  },
+  chapterText: {
+    flex: 1,
+    marginHorizontal: 16,
+  },
+  chapterTitle: {
+    color: '#FFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  chapterDetail: {
+    color: '#888',
+    fontSize: 13,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    borderRadius: 8,
+    paddingVertical: 16,
+    marginBottom: 40,
+    borderWidth: 1,
+    borderColor: '#D4AF37',
+    borderStyle: 'dashed',
+  },
+  addButtonText: {
+    color: '#D4AF37',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  inputContainer: {
+    marginBottom: 20,
+  },
+  inputLabel: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  textInput: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 8,
+    padding: 16,
+    color: '#FFFFFF',
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  inputHelper: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 8,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  colorRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  colorSwatch: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  colorSwatchActive: {
+    borderColor: '#FFFFFF',
+  },
+  saveButton: {
+    backgroundColor: '#D4AF37',
+    borderRadius: 8,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#666',
+  },
+  saveButtonText: {
+    color: '#0C0C0C',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  cancelButton: {
+    alignItems: 'center',
+    padding: 16,
+  },
+  cancelText: {
+    color: '#8B7355',
+    fontSize: 16,
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 16,
+    marginBottom: 40,
+  },
+  deleteText: {
+    color: '#FF6B6B',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,125 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, AppState, AppStateStatus } from 'react-native';
+import { timeRemaining, TimeRemaining } from '../lib/countdown';
+import { useMortalityStats } from '../lib/session';
+
+// Ticks once a second, on the second, while the app is in the foreground. Timers are
+// stopped in the background and the clock is read again as soon as the app comes back,
+// so the countdown never shows a value it slept through.
+export function useCountdown(target: string | null | undefined): TimeRemaining | null {
+  const [now, setNow] = useState(() => new Date());
+  const [appState, setAppState] = useState<AppStateStatus>(AppState.currentState);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', setAppState);
+    return () => subscription.remove();
+  }, []);
+
+  useEffect(() => {
+    if (!target || appState === 'background' || appState === 'inactive') return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    const tick = () => {
+      const current = new Date();
+      setNow(current);
+      timer = setTimeout(tick, 1000 - (current.getTime() % 1000));
+    };
+    tick();
+    return () => clearTimeout(timer);
+  }, [target, appState]);
+
+  return useMemo(() => (target ? timeRemaining(now, new Date(target)) : null), [now, target]);
+}
+
+const UNITS: { key: keyof Omit<TimeRemaining, 'done'>; label: string; short: string }[] = [
+  { key: 'years', label: 'Years', short: 'Yrs' },
+  { key: 'days', label: 'Days', short: 'Days' },
+  { key: 'hours', label: 'Hours', short: 'Hrs' },
+  { key: 'minutes', label: 'Minutes', short: 'Min' },
+  { key: 'seconds', label: 'Seconds', short: 'Sec' },
+];
+
+interface CountdownProps {
+  // Small enough for the floating widget: three units on the first line, two on the next.
+  compact?: boolean;
+}
+
+// Time left until the active profile's expected death date.
+export default function Countdown({ compact = false }: CountdownProps) {
+  const stats = useMortalityStats();
+  const remaining = useCountdown(stats?.expected_death_date);
+
+  if (!remaining) return null;
+
+  if (remaining.done) {
+    return (
+      <Text style={[styles.done, compact && styles.doneCompact]}>
+        You&apos;ve passed your expected date. Every moment now is a bonus.
+      </Text>
+    );
+  }
+
+  return (
+    <View style={[styles.grid, compact && styles.gridCompact]}>
+      {UNITS.map((unit) => (
+        <View key={unit.key} style={[styles.unit, compact && styles.unitCompact]}>
+          <Text style={[styles.value, compact && styles.valueCompact]}>
+            {unit.key === 'years' || unit.key === 'days'
+              ? remaining[unit.key]
+              : String(remaining[unit.key]).padStart(2, '0')}
+          </Text>
+          <Text style={[styles.label, compact && styles.labelCompact]}>{compact ? unit.short : unit.label}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  grid: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  gridCompact: {
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    width: '100%',
+    rowGap: 4,
+  },
+  unit: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  unitCompact: {
+    flex: 0,
+    width: '33%',
+  },
+  value: {
+    color: '#FFFFFF',
+    fontSize: 22,
+    fontWeight: 'bold',
+    fontVariant: ['tabular-nums'],
+  },
+  valueCompact: {
+    fontSize: 16,
+  },
+  label: {
+    color: '#CCCCCC',
+    fontSize: 11,
+    textTransform: 'uppercase',
+    marginTop: 2,
+  },
+  labelCompact: {
+    color: '#888',
+    fontSize: 8,
+    marginTop: 0,
+  },
+  done: {
+    color: '#D4AF37',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  doneCompact: {
+    fontSize: 10,
+  },
+});
@@ -0,0 +1,218 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  FlatList,
+  Modal,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Location from 'expo-location';
+import { findCountry, flagEmoji, searchCountries } from '../lib/countries';
+
+interface CountryPickerProps {
+  // ISO 3166-1 alpha-2 code, or '' when none is chosen yet.
+  value: string;
+  onChange: (code: string) => void;
+}
+
+export default function CountryPicker({ value, onChange }: CountryPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [locating, setLocating] = useState(false);
+  const results = useMemo(() => searchCountries(query), [query]);
+  const selected = findCountry(value);
+
+  const close = () => {
+    setOpen(false);
+    setQuery('');
+  };
+
+  const select = (code: string) => {
+    onChange(code);
+    close();
+  };
+
+  // Location is only a shortcut: permission is asked for when tapped, never up front.
+  const detectFromLocation = async () => {
+    setLocating(true);
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Location Not Allowed', 'No problem, choose your country from the list instead.');
+        return;
+      }
+
+      const location = await Location.getCurrentPositionAsync({});
+      const [place] = await Location.reverseGeocodeAsync({
+        latitude: location.coords.latitude,
+        longitude: location.coords.longitude,
+      });
+      const country = findCountry(place?.isoCountryCode);
+      if (!country) {
+        Alert.alert('Country Not Found', "We couldn't tell which country you're in. Please choose it from the list.");
+        return;
+      }
+      select(country.code);
+    } catch (error) {
+      console.error('Error detecting country:', error);
+      Alert.alert('Error', 'Failed to get your location. Please choose your country from the list.');
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  return (
+    <>
+      <TouchableOpacity style={styles.field} onPress={() => setOpen(true)}>
+        <Text style={[styles.fieldText, !selected && styles.placeholder]}>
+          {selected ? `${flagEmoji(selected.code)}  ${selected.name}` : 'Choose your country'}
+        </Text>
+        <Ionicons name="chevron-down" size={20} color="#888" />
+      </TouchableOpacity>
+
+      <Modal visible={open} animationType="slide" presentationStyle="pageSheet" onRequestClose={close}>
+        <SafeAreaView style={styles.modal}>
+          <View style={styles.header}>
+            <Text style={styles.headerTitle}>Country</Text>
+            <TouchableOpacity onPress={close}>
+              <Text style={styles.headerAction}>Close</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.searchBox}>
+            <Ionicons name="search" size={18} color="#888" />
+            <TextInput
+              style={styles.searchInput}
+              value={query}
+              onChangeText={setQuery}
+              placeholder="Search countries"
+              placeholderTextColor="#666"
+              autoCorrect={false}
+              clearButtonMode="while-editing"
+            />
+          </View>
+
+          <TouchableOpacity style={styles.locationRow} onPress={detectFromLocation} disabled={locating}>
+            {locating ? (
+              <ActivityIndicator size="small" color="#D4AF37" />
+            ) : (
+              <Ionicons name="locate-outline" size={20} color="#D4AF37" />
+            )}
+            <Text style={styles.locationText}>{locating ? 'Finding your country...' : 'Use My Location'}</Text>
+          </TouchableOpacity>
+
+          <FlatList
+            data={results}
+            keyExtractor={(country) => country.code}
+            keyboardShouldPersistTaps="handled"
+            initialNumToRender={20}
+            renderItem={({ item }) => (
+              <TouchableOpacity style={styles.row} onPress={() => select(item.code)}>
+                <Text style={styles.flag}>{flagEmoji(item.code)}</Text>
+                <Text style={styles.rowText}>{item.name}</Text>
+                {item.code === selected?.code && <Ionicons name="checkmark" size={22} color="#D4AF37" />}
+              </TouchableOpacity>
+            )}
+            ListEmptyComponent={<Text style={styles.empty}>No country matches &quot;{query}&quot;</Text>}
+          />
+        </SafeAreaView>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  field: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1A1A1A',
+    borderRadius: 8,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  fieldText: {
+    flex: 1,
+    color: '#FFFFFF',
+    fontSize: 16,
+  },
+  placeholder: {
+    color: '#666',
+  },
+  modal: {
+    flex: 1,
+    backgroundColor: '#0C0C0C',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+  },
+  headerTitle: {
+    color: '#D4AF37',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  headerAction: {
+    color: '#D4AF37',
+    fontSize: 16,
+  },
+  searchBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1A1A1A',
+    borderRadius: 8,
+    marginHorizontal: 20,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+    gap: 8,
+  },
+  searchInput: {
+    flex: 1,
+    color: '#FFFFFF',
+    fontSize: 16,
+    paddingVertical: 12,
+  },
+  locationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    gap: 12,
+  },
+  locationText: {
+    color: '#D4AF37',
+    fontSize: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderTopWidth: 1,
+    borderTopColor: '#1A1A1A',
+    gap: 12,
+  },
+  flag: {
+    fontSize: 22,
+  },
+  rowText: {
+    flex: 1,
+    color: '#FFFFFF',
+    fontSize: 16,
+  },
+  empty: {
+    color: '#888',
+    fontSize: 14,
+    textAlign: 'center',
+    padding: 32,
+  },
+});
@@ -0,0 +1,212 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  Platform,
+  StyleProp,
+  TextStyle,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker, { DateTimePickerAndroid, DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import {
+  daysBetween,
+  formatDateInput,
+  formatLocalDate,
+  localeDatePlaceholder,
+  parseDateInput,
+  parseLocalDate,
+  startOfDay,
+  toDateString,
+} from '../lib/dates';
+
+interface DateInputProps {
+  // 'YYYY-MM-DD', '' when empty, or null while the text isn't a valid date in range.
+  value: string | null;
+  onChange: (value: string | null) => void;
+  minimumDate?: Date;
+  maximumDate?: Date;
+  placeholder?: string;
+  inputStyle?: StyleProp<TextStyle>;
+}
+
+const describeBound = (bound: Date, side: 'min' | 'max') => {
+  const fromToday = daysBetween(startOfDay(new Date()), bound);
+  if (fromToday === 0) return side === 'max' ? "Can't be in the future" : "Can't be in the past";
+  const formatted = formatLocalDate(toDateString(bound));
+  return side === 'max' ? `Can't be after ${formatted}` : `Can't be before ${formatted}`;
+};
+
+// Free text in the user's own date format, with the native calendar as a shortcut.
+// The line underneath spells the date out so 03/04 can't be misread either way.
+export default function DateInput({
+  value,
+  onChange,
+  minimumDate,
+  maximumDate,
+  placeholder,
+  inputStyle,
+}: DateInputProps) {
+  const [text, setText] = useState('');
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const pattern = localeDatePlaceholder();
+
+  const parsed = parseDateInput(text);
+  const error = !text.trim()
+    ? null
+    : !parsed
+      ? `Enter a real date as ${pattern}`
+      : minimumDate && parsed < startOfDay(minimumDate)
+        ? describeBound(minimumDate, 'min')
+        : maximumDate && parsed > startOfDay(maximumDate)
+          ? describeBound(maximumDate, 'max')
+          : null;
+
+  // Follow changes made outside the field: a loaded profile, a reset form, the calendar.
+  useEffect(() => {
+    if (value === null) return;
+    setText((text) => {
+      const current = parseDateInput(text);
+      if (value === '' ? text.trim() === '' : current && toDateString(current) === value) return text;
+      const date = value ? parseLocalDate(value) : null;
+      return date ? formatDateInput(date) : '';
+    });
+  }, [value]);
+
+  const handleChangeText = (next: string) => {
+    setText(next);
+    if (!next.trim()) {
+      onChange('');
+      return;
+    }
+    const date = parseDateInput(next);
+    const inRange =
+      date !== null &&
+      !(minimumDate && date < startOfDay(minimumDate)) &&
+      !(maximumDate && date > startOfDay(maximumDate));
+    onChange(inRange ? toDateString(date) : null);
+  };
+
+  const pickerValue = parsed ?? (maximumDate && maximumDate < new Date() ? maximumDate : new Date());
+
+  const handlePicked = (event: DateTimePickerEvent, date?: Date) => {
+    setPickerOpen(false);
+    if (event.type === 'set' && date) {
+      handleChangeText(formatDateInput(startOfDay(date)));
+    }
+  };
+
+  const openPicker = () => {
+    if (Platform.OS === 'android') {
+      DateTimePickerAndroid.open({ value: pickerValue, mode: 'date', minimumDate, maximumDate, onChange: handlePicked });
+    } else {
+      setPickerOpen(true);
+    }
+  };
+
+  return (
+    <View>
+      <View style={styles.row}>
+        <TextInput
+          style={[styles.input, inputStyle]}
+          value={text}
+          onChangeText={handleChangeText}
+          placeholder={placeholder ?? pattern}
+          placeholderTextColor="#666"
+          keyboardType="numbers-and-punctuation"
+          maxLength={10}
+        />
+        {Platform.OS !== 'web' && (
+          <TouchableOpacity style={styles.calendarButton} onPress={openPicker}>
+            <Ionicons name="calendar-outline" size={24} color="#D4AF37" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {error ? (
+        <Text style={[styles.helper, styles.error]}>{error}</Text>
+      ) : parsed ? (
+        <Text style={styles.helper}>
+          {formatLocalDate(toDateString(parsed), { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
+        </Text>
+      ) : null}
+
+      {Platform.OS === 'ios' && (
+        <Modal visible={pickerOpen} transparent animationType="fade" onRequestClose={() => setPickerOpen(false)}>
+          <View style={styles.backdrop}>
+            <View style={styles.sheet}>
+              <DateTimePicker
+                value={pickerValue}
+                mode="date"
+                display="inline"
+                themeVariant="dark"
+                accentColor="#D4AF37"
+                minimumDate={minimumDate}
+                maximumDate={maximumDate}
+                onChange={(event, date) => {
+                  if (date) handleChangeText(formatDateInput(startOfDay(date)));
+                }}
+              />
+              <TouchableOpacity style={styles.doneButton} onPress={() => setPickerOpen(false)}>
+                <Text style={styles.doneText}>Done</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </Modal>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#1A1A1A',
+    borderRadius: 8,
+    padding: 16,
+    color: '#FFFFFF',
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  calendarButton: {
+    padding: 12,
+  },
+  helper: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 8,
+  },
+  error: {
+    color: '#FF6B6B',
+  },
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  sheet: {
+    backgroundColor: '#1A1A1A',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 16,
+    paddingBottom: 32,
+  },
+  doneButton: {
+    alignSelf: 'flex-end',
+    padding: 12,
+  },
+  doneText: {
+    color: '#D4AF37',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
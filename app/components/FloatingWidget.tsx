@@ -4,40 +4,22 @@ import {
   Text,
   StyleSheet,
   Animated,
-  PanGestureHandler,
-  State,
   TouchableOpacity,
   Dimensions,
 } from 'react-native';
-import { GestureHandlerRootView } from 'react-native-gesture-handler';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import Constants from 'expo-constants';
+import { GestureHandlerRootView, PanGestureHandler, State } from 'react-native-gesture-handler';
+import { Quote } from '../lib/models';
+import { getTodaysQuote } from '../lib/quoteLibrary';
+import { useSession } from '../lib/session';
+import Countdown from './Countdown';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
-const BACKEND_URL = Constants.expoConfig?.extra?.EXPO_BACKEND_URL || 'http://localhost:8001';
-
-interface Quote {
-  id: string;
-  text: string;
-  author: string;
-  category: string;
-}
-
-interface MortalityStats {
-  days_lived: number;
-  days_remaining: number;
-  life_percentage: number;
-  year_percentage: number;
-  month_percentage: number;
-  expected_death_date: string;
-}
 
 export default function FloatingWidget() {
   const [isMinimized, setIsMinimized] = useState(false);
   const [mode, setMode] = useState<'countdown' | 'quote'>('countdown');
   const [quote, setQuote] = useState<Quote | null>(null);
-  const [mortalityStats, setMortalityStats] = useState<MortalityStats | null>(null);
-  const [userProfileId, setUserProfileId] = useState<string | null>(null);
+  const { profileId } = useSession();
 
   // Animation values
   const translateX = useRef(new Animated.Value(screenWidth - 120)).current;
@@ -49,48 +31,10 @@ export default function FloatingWidget() {
   const gestureState = useRef({ x: 0, y: 0 });
 
   useEffect(() => {
-    initializeWidget();
-  }, []);
-
-  useEffect(() => {
-    if (userProfileId) {
-      fetchData();
-      // Refresh data every minute for countdown
-      const interval = setInterval(fetchData, 60000);
-      return () => clearInterval(interval);
-    }
-  }, [userProfileId]);
-
-  const initializeWidget = async () => {
-    try {
-      const profileId = await AsyncStorage.getItem('userProfileId');
-      setUserProfileId(profileId);
-    } catch (error) {
-      console.error('Error initializing widget:', error);
-    }
-  };
-
-  const fetchData = async () => {
-    if (!userProfileId) return;
-
-    try {
-      // Fetch mortality stats
-      const mortalityResponse = await fetch(`${BACKEND_URL}/api/mortality/${userProfileId}`);
-      if (mortalityResponse.ok) {
-        const mortalityData = await mortalityResponse.json();
-        setMortalityStats(mortalityData);
-      }
-
-      // Fetch daily quote
-      const quoteResponse = await fetch(`${BACKEND_URL}/api/quotes/daily`);
-      if (quoteResponse.ok) {
-        const quoteData = await quoteResponse.json();
-        setQuote(quoteData);
-      }
-    } catch (error) {
-      console.error('Error fetching widget data:', error);
-    }
-  };
+    getTodaysQuote(profileId)
+      .then((shown) => setQuote(shown.quote))
+      .catch((error) => console.error('Error loading widget quote:', error));
+  }, [profileId]);
 
   const handleGestureEvent = Animated.event(
     [{ nativeEvent: { translationX: translateX, translationY: translateY } }],
@@ -98,7 +42,7 @@ export default function FloatingWidget() {
   );
 
   const handleGestureStateChange = (event: any) => {
-    if (event.nativeEvent.state === State.ENDED) {
+    if (event.nativeEvent.state === State.END) {
       const { translationX: tx, translationY: ty } = event.nativeEvent;
       
       // Snap to edges
@@ -138,26 +82,6 @@ export default function FloatingWidget() {
     setMode(mode === 'countdown' ? 'quote' : 'countdown');
   };
 
-  const formatTimeRemaining = () => {
-    if (!mortalityStats) return { years: 0, days: 0, hours: 0, minutes: 0, seconds: 0 };
-
-    const now = new Date();
-    const deathDate = new Date(mortalityStats.expected_death_date);
-    const timeDiff = deathDate.getTime() - now.getTime();
-
-    if (timeDiff <= 0) return { years: 0, days: 0, hours: 0, minutes: 0, seconds: 0 };
-
-    const years = Math.floor(timeDiff / (365.25 * 24 * 60 * 60 * 1000));
-    const days = Math.floor((timeDiff % (365.25 * 24 * 60 * 60 * 1000)) / (24 * 60 * 60 * 1000));
-    const hours = Math.floor((timeDiff % (24 * 60 * 60 * 1000)) / (60 * 60 * 1000));
-    const minutes = Math.floor((timeDiff % (60 * 60 * 1000)) / (60 * 1000));
-    const seconds = Math.floor((timeDiff % (60 * 1000)) / 1000);
-
-    return { years, days, hours, minutes, seconds };
-  };
-
-  const timeRemaining = formatTimeRemaining();
-
   const renderCountdownContent = () => {
     if (isMinimized) {
       return (
@@ -170,26 +94,7 @@ export default function FloatingWidget() {
     return (
       <View style={styles.countdownContent}>
         <Text style={styles.countdownTitle}>Time Remaining</Text>
-        <View style={styles.timeGrid}>
-          <View style={styles.timeUnit}>
-            <Text style={styles.timeValue}>{timeRemaining.years}</Text>
-            <Text style={styles.timeLabel}>Years</Text>
-          </View>
-          <View style={styles.timeUnit}>
-            <Text style={styles.timeValue}>{timeRemaining.days}</Text>
-            <Text style={styles.timeLabel}>Days</Text>
-          </View>
-        </View>
-        <View style={styles.timeGrid}>
-          <View style={styles.timeUnit}>
-            <Text style={styles.timeValue}>{timeRemaining.hours}</Text>
-            <Text style={styles.timeLabel}>Hours</Text>
-          </View>
-          <View style={styles.timeUnit}>
-            <Text style={styles.timeValue}>{timeRemaining.minutes}</Text>
-            <Text style={styles.timeLabel}>Min</Text>
-          </View>
-        </View>
+        <Countdown compact />
       </View>
     );
   };
@@ -304,26 +209,6 @@ const styles = StyleSheet.create({
     marginBottom: 8,
     textAlign: 'center',
   },
-  timeGrid: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    width: '100%',
-    marginBottom: 4,
-  },
-  timeUnit: {
-    alignItems: 'center',
-    flex: 1,
-  },
-  timeValue: {
-    color: '#FFF',
-    fontSize: 16,
-    fontWeight: 'bold',
-  },
-  timeLabel: {
-    color: '#888',
-    fontSize: 8,
-    textTransform: 'uppercase',
-  },
   quoteContent: {
     alignItems: 'center',
     justifyContent: 'center',
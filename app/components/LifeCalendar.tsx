@@ -0,0 +1,385 @@
+import React, { memo, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  Pressable,
+  TouchableOpacity,
+  GestureResponderEvent,
+  useWindowDimensions,
+  RefreshControlProps,
+  ViewStyle,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { chapterForCell, chapterSpans } from '../lib/chapters';
+import { parseLocalDate } from '../lib/dates';
+import {
+  buildLifeCalendar,
+  CalendarRow,
+  CalendarZoom,
+  CellState,
+  ZOOM_COLUMNS,
+  ZOOM_UNIT,
+} from '../lib/lifeCalendar';
+import type { LifeChapter } from '../lib/models';
+
+interface LifeCalendarProps {
+  birthDate: string;
+  lifeExpectancy: number;
+  chapters?: LifeChapter[];
+  onManageChapters?: () => void;
+  // Called with the week's index (week 0 starts at birth) when a week is tapped.
+  onSelectWeek?: (index: number) => void;
+  // Rendered above the calendar, scrolling with it.
+  header?: React.ReactElement;
+  refreshControl?: React.ReactElement<RefreshControlProps>;
+}
+
+const ZOOMS: { value: CalendarZoom; label: string }[] = [
+  { value: 'weeks', label: 'Weeks' },
+  { value: 'months', label: 'Months' },
+  { value: 'years', label: 'Years' },
+];
+
+// Horizontal space taken by the card margins and padding, and the label columns.
+const CARD_INSET = 2 * (16 + 20);
+const AGE_LABEL_WIDTH = 24;
+const YEAR_LABEL_WIDTH = 32;
+// Week cells are only a few points wide; rows stay tall enough for their labels.
+const MIN_ROW_HEIGHT = 10;
+
+const CELL_STYLE: Record<CellState, ViewStyle> = {
+  lived: { backgroundColor: '#D4AF37' },
+  current: { backgroundColor: '#FF6B6B' },
+  remaining: { backgroundColor: '#4A4A4A' },
+};
+
+// Chapter colours are laid under the dots at this opacity (hex alpha).
+const CHAPTER_TINT_ALPHA = '59';
+
+interface RowProps {
+  row: CalendarRow;
+  // Chapter colour behind each cell, in cell order.
+  tints: (string | null)[];
+  zoom: CalendarZoom;
+  cellSize: number;
+  onSelectCell?: (index: number) => void;
+}
+
+// Rows only re-render when their cells, zoom or size change, so scrolling a lifetime
+// of weeks stays cheap.
+const CalendarRowView = memo(function CalendarRowView({ row, tints, zoom, cellSize, onSelectCell }: RowProps) {
+  const dot = Math.max(2, Math.floor(cellSize * (zoom === 'weeks' ? 0.75 : 0.8)));
+  // Years are grouped by decade, so every row gets its year; finer zooms label every fifth.
+  const showYear = zoom === 'years' || row.age % 5 === 0;
+
+  // One touch target per row rather than per cell: the tapped cell is found from where the
+  // touch landed, which also keeps few-point-wide week cells reachable.
+  const handlePress = (event: GestureResponderEvent) => {
+    const cell = row.cells[Math.floor(event.nativeEvent.locationX / cellSize)];
+    if (cell) onSelectCell?.(cell.index);
+  };
+
+  const cells = (
+    // Children ignore touches so `locationX` is always measured from the row's left edge.
+    <View style={styles.cells} pointerEvents={onSelectCell ? 'none' : 'auto'}>
+      {row.cells.map((cell, index) => (
+        <View
+          key={cell.index}
+          style={[
+            styles.cellSlot,
+            { width: cellSize, height: cellSize },
+            tints[index] !== null && { backgroundColor: tints[index] + CHAPTER_TINT_ALPHA },
+          ]}
+        >
+          <View
+            style={[
+              { width: dot, height: dot, borderRadius: zoom === 'weeks' ? dot / 2 : 2 },
+              CELL_STYLE[cell.state],
+            ]}
+          />
+        </View>
+      ))}
+    </View>
+  );
+
+  return (
+    <View style={[styles.row, { height: Math.max(cellSize, MIN_ROW_HEIGHT) }]}>
+      <Text style={styles.ageLabel}>{row.age}</Text>
+      {onSelectCell ? (
+        <Pressable style={styles.cells} onPress={handlePress}>
+          {cells}
+        </Pressable>
+      ) : (
+        cells
+      )}
+      <Text style={styles.yearLabel}>{showYear ? row.year : ''}</Text>
+    </View>
+  );
+});
+
+export default function LifeCalendar({
+  birthDate,
+  lifeExpectancy,
+  chapters = [],
+  onManageChapters,
+  onSelectWeek,
+  header,
+  refreshControl,
+}: LifeCalendarProps) {
+  const { width } = useWindowDimensions();
+  const [zoom, setZoom] = useState<CalendarZoom>('weeks');
+  const birth = useMemo(() => parseLocalDate(birthDate), [birthDate]);
+
+  const rows = useMemo(
+    () => (birth ? buildLifeCalendar(birth, lifeExpectancy, zoom) : []),
+    [birth, lifeExpectancy, zoom]
+  );
+
+  const tints = useMemo(() => {
+    const spans = birth ? chapterSpans(birth, chapters) : [];
+    return new Map(
+      rows.map((row) => [
+        row.key,
+        row.cells.map((cell) => chapterForCell(spans, cell.startDay, cell.endDay)?.color ?? null),
+      ])
+    );
+  }, [birth, chapters, rows]);
+
+  const cellSize = (width - CARD_INSET - AGE_LABEL_WIDTH - YEAR_LABEL_WIDTH) / ZOOM_COLUMNS[zoom];
+  const current = rows.flatMap((row) => row.cells).find((cell) => cell.state === 'current');
+  const totalCells = rows.reduce((sum, row) => sum + row.cells.length, 0);
+
+  const calendarHeader = (
+    <>
+      {header}
+      <View style={[styles.card, styles.cardTop]}>
+        <Text style={styles.title}>Life in {zoom[0].toUpperCase() + zoom.slice(1)}</Text>
+        <Text style={styles.subtitle}>
+          Each {zoom === 'weeks' ? 'dot' : 'square'} is one {ZOOM_UNIT[zoom]} of your life
+          {current ? ` · ${ZOOM_UNIT[zoom]} ${(current.index + 1).toLocaleString()} of ${totalCells.toLocaleString()}` : ''}
+        </Text>
+
+        <View style={styles.zoomControl}>
+          {ZOOMS.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.zoomOption, zoom === option.value && styles.zoomOptionActive]}
+              onPress={() => setZoom(option.value)}
+            >
+              <Text style={[styles.zoomText, zoom === option.value && styles.zoomTextActive]}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.columnHeadings}>
+          <Text style={styles.ageLabel}>Age</Text>
+          <View style={styles.cells} />
+          <Text style={styles.yearLabel}>Year</Text>
+        </View>
+      </View>
+    </>
+  );
+
+  const calendarFooter = (
+    <View style={[styles.card, styles.cardBottom]}>
+      <View style={styles.legend}>
+        {(['lived', 'current', 'remaining'] as CellState[]).map((state) => (
+          <View key={state} style={styles.legendItem}>
+            <View style={[styles.legendDot, CELL_STYLE[state]]} />
+            <Text style={styles.legendText}>{state[0].toUpperCase() + state.slice(1)}</Text>
+          </View>
+        ))}
+      </View>
+
+      {zoom === 'weeks' && onSelectWeek && <Text style={styles.hint}>Tap a week to see what happened in it</Text>}
+
+      {chapters.length > 0 && (
+        <View style={styles.chapterLegend}>
+          {chapters.map((chapter) => (
+            <View key={chapter.id} style={styles.legendItem}>
+              <View style={[styles.chapterSwatch, { backgroundColor: chapter.color }]} />
+              <Text style={styles.legendText}>{chapter.title}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {onManageChapters && (
+        <TouchableOpacity style={styles.chaptersButton} onPress={onManageChapters}>
+          <Ionicons name="bookmarks-outline" size={16} color="#D4AF37" />
+          <Text style={styles.chaptersButtonText}>
+            {chapters.length > 0 ? 'Edit Chapters' : 'Add Life Chapters'}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  return (
+    <FlatList
+      style={styles.list}
+      data={rows}
+      keyExtractor={(row) => row.key}
+      renderItem={({ item }) => (
+        <View style={styles.card}>
+          <CalendarRowView
+            row={item}
+            tints={tints.get(item.key)!}
+            zoom={zoom}
+            cellSize={cellSize}
+            onSelectCell={zoom === 'weeks' ? onSelectWeek : undefined}
+          />
+        </View>
+      )}
+      ListHeaderComponent={calendarHeader}
+      ListFooterComponent={calendarFooter}
+      refreshControl={refreshControl}
+      initialNumToRender={24}
+      maxToRenderPerBatch={16}
+      windowSize={7}
+      removeClippedSubviews
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  list: {
+    flex: 1,
+  },
+  card: {
+    marginHorizontal: 16,
+    paddingHorizontal: 20,
+    backgroundColor: '#1A1A1A',
+  },
+  cardTop: {
+    marginTop: 16,
+    paddingTop: 20,
+    paddingBottom: 8,
+    borderTopLeftRadius: 12,
+    borderTopRightRadius: 12,
+  },
+  cardBottom: {
+    marginBottom: 16,
+    paddingBottom: 20,
+    borderBottomLeftRadius: 12,
+    borderBottomRightRadius: 12,
+  },
+  title: {
+    color: '#D4AF37',
+    fontSize: 18,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    color: '#CCCCCC',
+    fontSize: 12,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  zoomControl: {
+    flexDirection: 'row',
+    backgroundColor: '#0C0C0C',
+    borderRadius: 8,
+    padding: 2,
+    marginBottom: 16,
+  },
+  zoomOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  zoomOptionActive: {
+    backgroundColor: '#2A2A2A',
+  },
+  zoomText: {
+    color: '#888',
+    fontSize: 14,
+  },
+  zoomTextActive: {
+    color: '#D4AF37',
+    fontWeight: 'bold',
+  },
+  columnHeadings: {
+    flexDirection: 'row',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  ageLabel: {
+    color: '#CCCCCC',
+    fontSize: 9,
+    lineHeight: MIN_ROW_HEIGHT,
+    width: AGE_LABEL_WIDTH,
+  },
+  yearLabel: {
+    color: '#888',
+    fontSize: 9,
+    lineHeight: MIN_ROW_HEIGHT,
+    width: YEAR_LABEL_WIDTH,
+    textAlign: 'right',
+  },
+  cells: {
+    flex: 1,
+    flexDirection: 'row',
+  },
+  cellSlot: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  legend: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: 16,
+    gap: 16,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  legendDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  legendText: {
+    color: '#CCCCCC',
+    fontSize: 12,
+  },
+  hint: {
+    color: '#888',
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  chapterLegend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginTop: 12,
+    columnGap: 16,
+    rowGap: 6,
+  },
+  chapterSwatch: {
+    width: 12,
+    height: 8,
+    borderRadius: 2,
+  },
+  chaptersButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    gap: 6,
+    marginTop: 16,
+    padding: 8,
+  },
+  chaptersButtonText: {
+    color: '#D4AF37',
+    fontSize: 14,
+  },
+});
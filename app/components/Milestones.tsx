@@ -0,0 +1,191 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { daysBetween, formatLocalDate, parseLocalDate, startOfDay, toDateString } from '../lib/dates';
+import { Milestone, MilestoneKind, milestoneTimeline } from '../lib/milestones';
+
+interface MilestonesProps {
+  birthDate: string;
+  lifeExpectancy: number;
+}
+
+const ICONS: Record<MilestoneKind, keyof typeof Ionicons.glyphMap> = {
+  days_lived: 'sunny-outline',
+  weeks_remaining: 'hourglass-outline',
+  life_percentage: 'pie-chart-outline',
+  birthday: 'gift-outline',
+  days_remaining: 'timer-outline',
+};
+
+// How many upcoming milestones are shown before the list is expanded.
+const UPCOMING_PREVIEW = 3;
+
+const relativeDay = (date: string) => {
+  const days = daysBetween(startOfDay(new Date()), parseLocalDate(date)!);
+  if (days === 0) return 'Today';
+  if (days === 1) return 'Tomorrow';
+  if (days === -1) return 'Yesterday';
+  return days > 0 ? `In ${days.toLocaleString()} days` : `${(-days).toLocaleString()} days ago`;
+};
+
+function MilestoneRow({ milestone }: { milestone: Milestone }) {
+  return (
+    <View style={styles.row}>
+      <Ionicons name={ICONS[milestone.kind]} size={18} color="#D4AF37" />
+      <Text style={styles.rowTitle}>{milestone.title}</Text>
+      <Text style={styles.rowDate}>{formatLocalDate(milestone.date, { month: 'short', day: 'numeric', year: 'numeric' })}</Text>
+    </View>
+  );
+}
+
+export default function Milestones({ birthDate, lifeExpectancy }: MilestonesProps) {
+  const [showAllUpcoming, setShowAllUpcoming] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  // Recalculated when the day changes, not on every render.
+  const today = toDateString(new Date());
+
+  const timeline = useMemo(() => {
+    try {
+      return milestoneTimeline(birthDate, lifeExpectancy, parseLocalDate(today)!);
+    } catch (error) {
+      console.error('Error finding milestones:', error);
+      return null;
+    }
+  }, [birthDate, lifeExpectancy, today]);
+
+  if (!timeline) return null;
+
+  const upcoming = showAllUpcoming ? timeline.upcoming : timeline.upcoming.slice(0, UPCOMING_PREVIEW);
+
+  return (
+    <>
+      {timeline.current.map((milestone) => (
+        <View key={milestone.id} style={styles.celebration}>
+          <Ionicons name={ICONS[milestone.kind]} size={32} color="#D4AF37" />
+          <View style={styles.celebrationText}>
+            <Text style={styles.celebrationTitle}>{milestone.title}</Text>
+            <Text style={styles.celebrationDate}>
+              {milestone.kind === 'birthday' ? "It's your birthday week" : 'Milestone reached'} ·{' '}
+              {relativeDay(milestone.date)}
+            </Text>
+          </View>
+        </View>
+      ))}
+
+      <View style={styles.container}>
+        <Text style={styles.sectionTitle}>Milestones</Text>
+
+        {timeline.upcoming.length > 0 && (
+          <>
+            <Text style={styles.groupTitle}>Coming Up</Text>
+            {upcoming.map((milestone) => (
+              <View key={milestone.id}>
+                <MilestoneRow milestone={milestone} />
+                <Text style={styles.rowRelative}>{relativeDay(milestone.date)}</Text>
+              </View>
+            ))}
+            {timeline.upcoming.length > UPCOMING_PREVIEW && (
+              <TouchableOpacity style={styles.toggle} onPress={() => setShowAllUpcoming(!showAllUpcoming)}>
+                <Text style={styles.toggleText}>
+                  {showAllUpcoming ? 'Show Fewer' : `Show All ${timeline.upcoming.length} Ahead`}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+
+        {timeline.passed.length > 0 && (
+          <>
+            <TouchableOpacity style={styles.historyHeader} onPress={() => setShowHistory(!showHistory)}>
+              <Text style={styles.groupTitle}>Already Passed ({timeline.passed.length})</Text>
+              <Ionicons name={showHistory ? 'chevron-up' : 'chevron-down'} size={18} color="#888" />
+            </TouchableOpacity>
+            {showHistory && timeline.passed.map((milestone) => <MilestoneRow key={milestone.id} milestone={milestone} />)}
+          </>
+        )}
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  celebration: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginTop: 16,
+    padding: 20,
+    backgroundColor: '#2A2410',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#D4AF37',
+  },
+  celebrationText: {
+    flex: 1,
+    marginLeft: 16,
+  },
+  celebrationTitle: {
+    color: '#D4AF37',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  celebrationDate: {
+    color: '#CCCCCC',
+    fontSize: 14,
+  },
+  container: {
+    margin: 16,
+    padding: 20,
+    backgroundColor: '#1A1A1A',
+    borderRadius: 12,
+  },
+  sectionTitle: {
+    color: '#D4AF37',
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  groupTitle: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingTop: 10,
+  },
+  rowTitle: {
+    flex: 1,
+    color: '#FFFFFF',
+    fontSize: 14,
+  },
+  rowDate: {
+    color: '#888',
+    fontSize: 12,
+  },
+  rowRelative: {
+    color: '#8B7355',
+    fontSize: 12,
+    marginLeft: 28,
+  },
+  toggle: {
+    alignSelf: 'center',
+    paddingTop: 12,
+  },
+  toggleText: {
+    color: '#D4AF37',
+    fontSize: 14,
+  },
+  historyHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,440 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { hasCountryData, LIFESTYLE_LABELS, LifestyleAnswers, Sex } from '../lib/actuarial';
+import type { Goal, UserProfile } from '../lib/models';
+import { estimateForDraft, hasValidLifeExpectancy, OnboardingDraft } from '../lib/onboarding';
+import { isValidBirthDate, MAX_LIFE_EXPECTANCY, MIN_LIFE_EXPECTANCY } from '../lib/profile';
+import * as sync from '../lib/sync';
+import CountryPicker from './CountryPicker';
+import DateInput from './DateInput';
+
+export interface StepProps {
+  draft: OnboardingDraft;
+  update: (changes: Partial<OnboardingDraft>) => void;
+}
+
+// One screen of onboarding. The wizard renders these in order, so adding a step is
+// adding an entry to ONBOARDING_STEPS (and any fields it needs to OnboardingDraft).
+export interface OnboardingStep {
+  id: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  title: string;
+  description: string | ((draft: OnboardingDraft) => string);
+  // Optional steps get a Skip button and must accept being left empty.
+  optional?: boolean;
+  // A message explaining what to fix, or null when the user may move on.
+  validate?: (draft: OnboardingDraft) => string | null;
+  // Runs after the profile is created, for steps that collect more than profile fields.
+  complete?: (profile: UserProfile, draft: OnboardingDraft) => Promise<void>;
+  Body: React.ComponentType<StepProps>;
+}
+
+const SEX_LABELS: Record<Sex, string> = {
+  female: 'Female',
+  male: 'Male',
+  unspecified: 'Prefer not to say',
+};
+
+const GOAL_CATEGORY_LABELS: Record<Goal['category'], string> = {
+  career: 'Career',
+  health: 'Health',
+  personal: 'Personal',
+  financial: 'Financial',
+  relationship: 'Relationship',
+};
+
+const formatYears = (years: number, signed: boolean) =>
+  `${signed && years >= 0 ? '+' : ''}${years.toFixed(1)} yrs`;
+
+function Chips<T extends string>({
+  labels,
+  selected,
+  onSelect,
+}: {
+  labels: Record<T, string>;
+  selected: T | undefined;
+  onSelect: (value: T) => void;
+}) {
+  return (
+    <View style={styles.chipRow}>
+      {(Object.keys(labels) as T[]).map((value) => (
+        <TouchableOpacity
+          key={value}
+          style={[styles.chip, selected === value && styles.chipSelected]}
+          onPress={() => onSelect(value)}
+        >
+          <Text style={[styles.chipText, selected === value && styles.chipTextSelected]}>{labels[value]}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+function BirthStep({ draft, update }: StepProps) {
+  return (
+    <>
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputLabel}>Name</Text>
+        <TextInput
+          style={styles.textInput}
+          value={draft.name}
+          onChangeText={(name) => update({ name })}
+          placeholder="Optional, shown in the profile switcher"
+          placeholderTextColor="#666"
+        />
+      </View>
+
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputLabel}>Birth Date</Text>
+        <DateInput
+          value={draft.birthDate}
+          onChange={(birthDate) => update({ birthDate })}
+          maximumDate={new Date()}
+          inputStyle={styles.textInput}
+        />
+      </View>
+
+      <TouchableOpacity style={styles.restoreLink} onPress={() => router.push('/backup')}>
+        <Ionicons name="cloud-download-outline" size={18} color="#D4AF37" />
+        <Text style={styles.restoreLinkText}>Restore from a backup instead</Text>
+      </TouchableOpacity>
+    </>
+  );
+}
+
+function LifeExpectancyStep({ draft, update }: StepProps) {
+  const estimate = estimateForDraft(draft);
+
+  const setLifestyleAnswer = <K extends keyof LifestyleAnswers>(key: K, value: LifestyleAnswers[K]) =>
+    update({ lifestyle: { ...draft.lifestyle, [key]: draft.lifestyle[key] === value ? undefined : value } });
+
+  return (
+    <>
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputLabel}>Country</Text>
+        <CountryPicker value={draft.country} onChange={(country) => update({ country })} />
+      </View>
+
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputLabel}>Sex</Text>
+        <Chips labels={SEX_LABELS} selected={draft.sex} onSelect={(sex) => update({ sex })} />
+      </View>
+
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputLabel}>Lifestyle (optional)</Text>
+        <Chips
+          labels={LIFESTYLE_LABELS.smoking}
+          selected={draft.lifestyle.smoking}
+          onSelect={(value) => setLifestyleAnswer('smoking', value)}
+        />
+        <Chips
+          labels={LIFESTYLE_LABELS.activity}
+          selected={draft.lifestyle.activity}
+          onSelect={(value) => setLifestyleAnswer('activity', value)}
+        />
+        <Chips
+          labels={LIFESTYLE_LABELS.bmi}
+          selected={draft.lifestyle.bmi}
+          onSelect={(value) => setLifestyleAnswer('bmi', value)}
+        />
+      </View>
+
+      <View style={styles.expectancyContainer}>
+        <TouchableOpacity
+          style={[styles.expectancyOption, !draft.useCustomExpectancy && styles.expectancyOptionSelected]}
+          onPress={() => update({ useCustomExpectancy: false })}
+        >
+          <Ionicons
+            name={!draft.useCustomExpectancy ? 'radio-button-on' : 'radio-button-off'}
+            size={24}
+            color="#D4AF37"
+          />
+          <View style={styles.expectancyText}>
+            <Text style={styles.expectancyTitle}>Use Personalised Estimate ({estimate.expectedAge} years)</Text>
+            <Text style={styles.expectancySubtitle}>Modelled from your country, sex, age and answers</Text>
+          </View>
+        </TouchableOpacity>
+
+        {!draft.useCustomExpectancy && (
+          <View style={styles.breakdown}>
+            {estimate.breakdown.map((step, index) => (
+              <View key={step.label} style={styles.breakdownRow}>
+                <Text style={styles.breakdownLabel}>{step.label}</Text>
+                <Text style={styles.breakdownValue}>{formatYears(step.years, index > 0)}</Text>
+              </View>
+            ))}
+            <View style={[styles.breakdownRow, styles.breakdownTotal]}>
+              <Text style={styles.breakdownTotalLabel}>Expected lifespan</Text>
+              <Text style={styles.breakdownTotalValue}>{estimate.expectedAge} years</Text>
+            </View>
+            <Text style={styles.breakdownNote}>
+              {estimate.remainingYears} more years on average. This is an approximation: only life expectancy at
+              birth is published data, and how it changes with age is modelled from it. Lifestyle effects are
+              population averages, not a prediction for you.
+            </Text>
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={[styles.expectancyOption, draft.useCustomExpectancy && styles.expectancyOptionSelected]}
+          onPress={() => update({ useCustomExpectancy: true })}
+        >
+          <Ionicons
+            name={draft.useCustomExpectancy ? 'radio-button-on' : 'radio-button-off'}
+            size={24}
+            color="#D4AF37"
+          />
+          <View style={styles.expectancyText}>
+            <Text style={styles.expectancyTitle}>Set Custom Age</Text>
+            <Text style={styles.expectancySubtitle}>Enter your own estimate</Text>
+          </View>
+        </TouchableOpacity>
+      </View>
+
+      {draft.useCustomExpectancy && (
+        <View style={styles.inputContainer}>
+          <TextInput
+            style={styles.textInput}
+            value={draft.customLifeExpectancy}
+            onChangeText={(customLifeExpectancy) => update({ customLifeExpectancy })}
+            placeholder="e.g., 85"
+            placeholderTextColor="#666"
+            keyboardType="numeric"
+            maxLength={3}
+          />
+          <Text style={styles.inputHelper}>
+            Enter age between {MIN_LIFE_EXPECTANCY}-{MAX_LIFE_EXPECTANCY} years
+          </Text>
+        </View>
+      )}
+    </>
+  );
+}
+
+function FirstGoalStep({ draft, update }: StepProps) {
+  const goal = draft.firstGoal;
+  const setGoal = (changes: Partial<OnboardingDraft['firstGoal']>) => update({ firstGoal: { ...goal, ...changes } });
+
+  return (
+    <>
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputLabel}>Goal</Text>
+        <TextInput
+          style={styles.textInput}
+          value={goal.title}
+          onChangeText={(title) => setGoal({ title })}
+          placeholder="e.g., Run a marathon"
+          placeholderTextColor="#666"
+        />
+      </View>
+
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputLabel}>Category</Text>
+        <Chips labels={GOAL_CATEGORY_LABELS} selected={goal.category} onSelect={(category) => setGoal({ category })} />
+      </View>
+
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputLabel}>Target Date (optional)</Text>
+        <DateInput
+          value={goal.targetDate}
+          onChange={(targetDate) => setGoal({ targetDate })}
+          minimumDate={new Date()}
+          inputStyle={styles.textInput}
+        />
+      </View>
+    </>
+  );
+}
+
+export const ONBOARDING_STEPS: OnboardingStep[] = [
+  {
+    id: 'birth',
+    icon: 'calendar-outline',
+    title: 'When were you born?',
+    description:
+      'We need your birth date to calculate your life statistics and create your personal mortality awareness.',
+    validate: (draft) =>
+      draft.birthDate && isValidBirthDate(draft.birthDate)
+        ? null
+        : 'Please enter your birth date. It must be a real date and not in the future.',
+    Body: BirthStep,
+  },
+  {
+    id: 'life-expectancy',
+    icon: 'trending-up-outline',
+    title: 'Life Expectancy',
+    description: (draft) =>
+      `We start from the life expectancy at birth for ${hasCountryData(draft.country) ? 'your country' : 'the world'}, ` +
+      'model how it changes with your age, then adjust for the answers below. Nothing leaves your device.',
+    validate: (draft) =>
+      hasValidLifeExpectancy(draft)
+        ? null
+        : `Please enter a life expectancy between ${MIN_LIFE_EXPECTANCY} and ${MAX_LIFE_EXPECTANCY} years.`,
+    Body: LifeExpectancyStep,
+  },
+  {
+    id: 'first-goal',
+    icon: 'flag-outline',
+    title: 'A First Goal',
+    description: 'Something you want to do with the time you have. You can add more, or change it, later.',
+    optional: true,
+    validate: (draft) =>
+      draft.firstGoal.targetDate === null ? 'Please enter a target date from today onwards, or leave it empty.' : null,
+    complete: async (profile, draft) => {
+      const { title, category, targetDate } = draft.firstGoal;
+      if (!title.trim()) return;
+      await sync.createGoal({
+        user_id: profile.id,
+        title: title.trim(),
+        description: '',
+        category,
+        priority: 'medium',
+        target_date: targetDate || null,
+      });
+    },
+    Body: FirstGoalStep,
+  },
+];
+
+const styles = StyleSheet.create({
+  inputContainer: {
+    width: '100%',
+    marginBottom: 24,
+  },
+  inputLabel: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  textInput: {
+    backgroundColor: '#1A1A1A',
+    color: '#FFFFFF',
+    fontSize: 18,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#2A2A2A',
+    textAlign: 'center',
+  },
+  inputHelper: {
+    color: '#CCCCCC',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  restoreLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 8,
+  },
+  restoreLinkText: {
+    color: '#D4AF37',
+    fontSize: 14,
+    marginLeft: 8,
+  },
+  expectancyContainer: {
+    width: '100%',
+    marginBottom: 24,
+  },
+  expectancyOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1A1A1A',
+    padding: 20,
+    borderRadius: 12,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#2A2A2A',
+  },
+  expectancyOptionSelected: {
+    borderColor: '#D4AF37',
+    backgroundColor: '#1A1A1A',
+  },
+  expectancyText: {
+    flex: 1,
+    marginLeft: 16,
+  },
+  expectancyTitle: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  expectancySubtitle: {
+    color: '#CCCCCC',
+    fontSize: 14,
+    marginTop: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#2A2A2A',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  chipSelected: {
+    borderColor: '#D4AF37',
+    backgroundColor: '#2A2418',
+  },
+  chipText: {
+    color: '#CCCCCC',
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: '#D4AF37',
+    fontWeight: 'bold',
+  },
+  breakdown: {
+    backgroundColor: '#141414',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  breakdownRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    gap: 12,
+  },
+  breakdownLabel: {
+    flex: 1,
+    color: '#CCCCCC',
+    fontSize: 14,
+  },
+  breakdownValue: {
+    color: '#FFFFFF',
+    fontSize: 14,
+  },
+  breakdownTotal: {
+    borderTopWidth: 1,
+    borderTopColor: '#2A2A2A',
+    marginTop: 6,
+    paddingTop: 10,
+  },
+  breakdownTotalLabel: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  breakdownTotalValue: {
+    color: '#D4AF37',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  breakdownNote: {
+    color: '#888',
+    fontSize: 12,
+    lineHeight: 18,
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { PASSCODE_LENGTH } from '../lib/lock';
+
+interface PasscodePadProps {
+  title: string;
+  subtitle?: string;
+  error?: string | null;
+  busy?: boolean;
+  // Called once all digits are entered; the pad clears itself when it resolves.
+  onComplete: (passcode: string) => Promise<void> | void;
+}
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '', '0', 'delete'];
+
+export default function PasscodePad({ title, subtitle, error, busy, onComplete }: PasscodePadProps) {
+  const [digits, setDigits] = useState('');
+
+  const handleKey = async (key: string) => {
+    if (busy) return;
+
+    if (key === 'delete') {
+      setDigits((current) => current.slice(0, -1));
+      return;
+    }
+
+    const next = digits + key;
+    setDigits(next);
+    if (next.length === PASSCODE_LENGTH) {
+      try {
+        await onComplete(next);
+      } finally {
+        setDigits('');
+      }
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Ionicons name="lock-closed-outline" size={40} color="#D4AF37" />
+      <Text style={styles.title}>{title}</Text>
+      {subtitle && <Text style={styles.subtitle}>{subtitle}</Text>}
+
+      <View style={styles.dots}>
+        {Array.from({ length: PASSCODE_LENGTH }, (_, i) => (
+          <View key={i} style={[styles.dot, i < digits.length && styles.dotFilled]} />
+        ))}
+      </View>
+
+      <View style={styles.status}>
+        {busy ? (
+          <ActivityIndicator color="#D4AF37" />
+        ) : (
+          error && <Text style={styles.error}>{error}</Text>
+        )}
+      </View>
+
+      <View style={styles.keypad}>
+        {KEYS.map((key, index) =>
+          key === '' ? (
+            <View key={index} style={styles.key} />
+          ) : (
+            <TouchableOpacity
+              key={index}
+              style={[styles.key, key !== 'delete' && styles.digitKey]}
+              onPress={() => handleKey(key)}
+              disabled={busy}
+              accessibilityLabel={key === 'delete' ? 'Delete' : key}
+            >
+              {key === 'delete' ? (
+                <Ionicons name="backspace-outline" size={26} color="#FFFFFF" />
+              ) : (
+                <Text style={styles.keyText}>{key}</Text>
+              )}
+            </TouchableOpacity>
+          )
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    padding: 24,
+  },
+  title: {
+    color: '#FFFFFF',
+    fontSize: 22,
+    fontWeight: 'bold',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  subtitle: {
+    color: '#CCCCCC',
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 32,
+  },
+  dot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 1,
+    borderColor: '#D4AF37',
+  },
+  dotFilled: {
+    backgroundColor: '#D4AF37',
+  },
+  status: {
+    height: 40,
+    justifyContent: 'center',
+  },
+  error: {
+    color: '#FF6B6B',
+    fontSize: 14,
+  },
+  keypad: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    width: 270,
+    justifyContent: 'space-between',
+    rowGap: 16,
+  },
+  key: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  digitKey: {
+    backgroundColor: '#1A1A1A',
+    borderWidth: 1,
+    borderColor: '#2A2A2A',
+  },
+  keyText: {
+    color: '#FFFFFF',
+    fontSize: 28,
+  },
+});
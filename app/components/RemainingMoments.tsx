@@ -0,0 +1,98 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { countMoments, describeRate, homeFramings } from '../lib/moments';
+import type { MomentFraming, MortalityStats } from '../lib/models';
+
+interface RemainingMomentsProps {
+  framings: MomentFraming[];
+  stats: MortalityStats;
+  onManage: () => void;
+}
+
+export default function RemainingMoments({ framings, stats, onManage }: RemainingMomentsProps) {
+  const shown = homeFramings(framings);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.sectionTitle}>What&apos;s Left</Text>
+        <TouchableOpacity onPress={onManage} style={styles.manageButton}>
+          <Ionicons name="options-outline" size={20} color="#D4AF37" />
+        </TouchableOpacity>
+      </View>
+
+      {shown.length === 0 ? (
+        <TouchableOpacity onPress={onManage}>
+          <Text style={styles.empty}>Count what&apos;s left in summers, books or visits home.</Text>
+        </TouchableOpacity>
+      ) : (
+        <View style={styles.grid}>
+          {shown.map((framing) => (
+            <View key={framing.id} style={styles.item}>
+              <Text style={styles.count}>{countMoments(framing, stats).toLocaleString()}</Text>
+              <Text style={styles.unit}>{framing.unit}</Text>
+              <Text style={styles.rate}>{describeRate(framing)}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    margin: 16,
+    padding: 20,
+    backgroundColor: '#1A1A1A',
+    borderRadius: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    color: '#D4AF37',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  manageButton: {
+    position: 'absolute',
+    right: 0,
+    padding: 4,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    rowGap: 16,
+  },
+  item: {
+    width: '50%',
+    alignItems: 'center',
+    paddingHorizontal: 4,
+  },
+  count: {
+    color: '#FFFFFF',
+    fontSize: 24,
+    fontWeight: 'bold',
+  },
+  unit: {
+    color: '#CCCCCC',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  rate: {
+    color: '#888',
+    fontSize: 11,
+    textAlign: 'center',
+    marginTop: 2,
+  },
+  empty: {
+    color: '#888',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+});
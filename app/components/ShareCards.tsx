@@ -0,0 +1,168 @@
+import React, { useRef, useState } from 'react';
+import { View, Text, StyleSheet, Platform, Share } from 'react-native';
+import Constants from 'expo-constants';
+import * as Sharing from 'expo-sharing';
+import { captureRef, releaseCapture } from 'react-native-view-shot';
+import { parseLocalDate } from '../lib/dates';
+import { buildLifeCalendar } from '../lib/lifeCalendar';
+import type { MortalityStats, Quote, UserProfile } from '../lib/models';
+import { cardStyles, COLORS } from '../lib/theme';
+
+// Cards are laid out at a fixed size, whatever the screen, and captured at 3x: 1080px wide.
+const CARD_WIDTH = 360;
+const CAPTURE_SCALE = 3;
+
+const APP_NAME = Constants.expoConfig?.name ?? 'Momento Mori';
+
+export function QuoteShareCard({ quote }: { quote: Quote }) {
+  return (
+    <View style={styles.card}>
+      <View style={cardStyles.quoteContainer}>
+        <Text style={[cardStyles.quoteTitle, styles.quoteTitle]}>Daily Wisdom</Text>
+        <Text style={cardStyles.quoteText}>&quot;{quote.text}&quot;</Text>
+        <Text style={cardStyles.quoteAuthor}>— {quote.author}</Text>
+      </View>
+      <Text style={styles.footer}>{APP_NAME}</Text>
+    </View>
+  );
+}
+
+// One bar per year of life: lived weeks, this week, and the weeks still to come.
+function WeeksThumbnail({ profile }: { profile: UserProfile }) {
+  const birth = parseLocalDate(profile.birth_date);
+  if (!birth) return null;
+
+  return (
+    <View style={styles.thumbnail}>
+      {buildLifeCalendar(birth, profile.life_expectancy, 'weeks').map((row) => {
+        const lived = row.cells.filter((cell) => cell.state === 'lived').length;
+        const current = row.cells.some((cell) => cell.state === 'current') ? 1 : 0;
+        const remaining = row.cells.length - lived - current;
+        return (
+          <View key={row.key} style={styles.thumbnailRow}>
+            {lived > 0 && <View style={[styles.thumbnailLived, { flex: lived }]} />}
+            {current > 0 && <View style={[styles.thumbnailCurrent, { flex: current }]} />}
+            {remaining > 0 && <View style={[styles.thumbnailRemaining, { flex: remaining }]} />}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+export function ProgressShareCard({ profile, stats }: { profile: UserProfile; stats: MortalityStats }) {
+  const totalWeeks = stats.weeks_lived + stats.weeks_remaining;
+
+  return (
+    <View style={styles.card}>
+      <View style={cardStyles.statsContainer}>
+        <Text style={cardStyles.sectionTitle}>{profile.name ? `${profile.name}'s Life` : 'My Life'} in Weeks</Text>
+        <Text style={cardStyles.progressLabel}>Life Progress: {stats.life_percentage.toFixed(1)}%</Text>
+        <View style={cardStyles.progressBar}>
+          <View style={[cardStyles.progressFill, { width: `${Math.min(stats.life_percentage, 100)}%` }]} />
+        </View>
+        <Text style={styles.weekLabel}>
+          Week {(stats.weeks_lived + 1).toLocaleString()} of {totalWeeks.toLocaleString()}
+        </Text>
+        <WeeksThumbnail profile={profile} />
+      </View>
+      <Text style={styles.footer}>{APP_NAME}</Text>
+    </View>
+  );
+}
+
+// Renders a card off-screen, captures it as a PNG and opens the share sheet with it. Where
+// files can't be shared (web), the card's text is shared instead. Mount `host` once in the
+// screen that shares.
+export function useShareCard() {
+  const [card, setCard] = useState<React.ReactElement | null>(null);
+  const hostRef = useRef<View>(null);
+  const pending = useRef<{ resolve: () => void; reject: (error: unknown) => void } | null>(null);
+
+  const share = async (element: React.ReactElement, fallbackText: string) => {
+    if (Platform.OS === 'web' || !(await Sharing.isAvailableAsync())) {
+      await Share.share({ message: fallbackText });
+      return;
+    }
+    return new Promise<void>((resolve, reject) => {
+      pending.current = { resolve, reject };
+      setCard(element);
+    });
+  };
+
+  // Called once the card has been laid out, so there is something to capture.
+  const capture = async () => {
+    const request = pending.current;
+    if (!request) return;
+    pending.current = null;
+
+    let uri: string | null = null;
+    try {
+      uri = await captureRef(hostRef, { format: 'png', result: 'tmpfile', width: CARD_WIDTH * CAPTURE_SCALE });
+      await Sharing.shareAsync(uri, { mimeType: 'image/png', UTI: 'public.png', dialogTitle: 'Share' });
+      request.resolve();
+    } catch (error) {
+      request.reject(error);
+    } finally {
+      if (uri) releaseCapture(uri);
+      setCard(null);
+    }
+  };
+
+  const host = card && (
+    <View ref={hostRef} collapsable={false} style={styles.offscreen} pointerEvents="none" onLayout={capture}>
+      {card}
+    </View>
+  );
+
+  return { share, host, sharing: card !== null };
+}
+
+const styles = StyleSheet.create({
+  offscreen: {
+    position: 'absolute',
+    left: -10000,
+    top: 0,
+    width: CARD_WIDTH,
+  },
+  card: {
+    width: CARD_WIDTH,
+    padding: 8,
+    backgroundColor: COLORS.background,
+  },
+  // On the home tab the title shares a row with the quote's buttons, which spaces it instead.
+  quoteTitle: {
+    marginBottom: 12,
+  },
+  weekLabel: {
+    color: COLORS.textMuted,
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 12,
+    marginBottom: 16,
+  },
+  thumbnail: {
+    gap: 1,
+  },
+  thumbnailRow: {
+    flexDirection: 'row',
+    height: 2,
+    gap: 1,
+  },
+  thumbnailLived: {
+    backgroundColor: COLORS.gold,
+  },
+  thumbnailCurrent: {
+    backgroundColor: COLORS.accent,
+    minWidth: 3,
+  },
+  thumbnailRemaining: {
+    backgroundColor: '#4A4A4A',
+  },
+  footer: {
+    color: '#8B7355',
+    fontSize: 12,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+});
@@ -0,0 +1,50 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { SyncStatus } from '../lib/store';
+
+interface SyncBadgeProps {
+  status: SyncStatus;
+  error?: string;
+  onRetry?: () => void;
+}
+
+export default function SyncBadge({ status, error, onRetry }: SyncBadgeProps) {
+  if (status === 'synced') return null;
+
+  if (status === 'pending') {
+    return (
+      <View style={styles.badge}>
+        <Ionicons name="cloud-upload-outline" size={12} color="#888" />
+        <Text style={styles.pendingText}>Waiting to sync</Text>
+      </View>
+    );
+  }
+
+  return (
+    <TouchableOpacity style={styles.badge} onPress={onRetry} disabled={!onRetry}>
+      <Ionicons name="cloud-offline-outline" size={12} color="#FF6B6B" />
+      <Text style={styles.failedText} numberOfLines={1}>
+        Sync failed{error ? `: ${error}` : ''}{onRetry ? ' · Tap to retry' : ''}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 8,
+  },
+  pendingText: {
+    color: '#888',
+    fontSize: 11,
+  },
+  failedText: {
+    color: '#FF6B6B',
+    fontSize: 11,
+    flexShrink: 1,
+  },
+});
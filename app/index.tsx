@@ -1,31 +1,70 @@
 import React, { useEffect, useState } from 'react';
-import { View, Text, StyleSheet } from 'react-native';
-import { Redirect } from 'expo-router';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { Redirect, router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
+import { useSession } from './lib/session';
+import { useLock } from './lib/lock';
+import { ensureMigrated } from './lib/migrations';
+import PasscodePad from './components/PasscodePad';
 
 export default function Index() {
-  const [isLoading, setIsLoading] = useState(true);
-  const [hasCompletedOnboarding, setHasCompletedOnboarding] = useState(false);
+  const { status, profile, profiles } = useSession();
+  const { status: lockStatus, unlock, forgetPasscode } = useLock();
+  const [isMigrated, setIsMigrated] = useState(false);
+  const [unlocking, setUnlocking] = useState(false);
+  const [unlockError, setUnlockError] = useState<string | null>(null);
 
   useEffect(() => {
-    checkOnboardingStatus();
+    // Upgrade local storage before routing so onboarding state survives app updates.
+    ensureMigrated().then(() => setIsMigrated(true));
   }, []);
 
-  const checkOnboardingStatus = async () => {
+  const handleUnlock = async (passcode: string) => {
+    setUnlocking(true);
     try {
-      const onboardingCompleted = await AsyncStorage.getItem('onboardingCompleted');
-      const userProfileId = await AsyncStorage.getItem('userProfileId');
-      
-      setHasCompletedOnboarding(onboardingCompleted === 'true' && userProfileId !== null);
-    } catch (error) {
-      console.error('Error checking onboarding status:', error);
-      setHasCompletedOnboarding(false);
+      const ok = await unlock(passcode);
+      setUnlockError(ok ? null : 'Wrong passcode. Try again.');
     } finally {
-      setIsLoading(false);
+      setUnlocking(false);
     }
   };
 
+  const handleForgot = () => {
+    Alert.alert(
+      'Forgot Passcode?',
+      'This profile\'s journal on this device will be erased and downloaded again from the server. Entries that have not synced yet will be lost.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Erase and Continue', style: 'destructive', onPress: () => forgetPasscode() },
+      ]
+    );
+  };
+
+  const isLoading = !isMigrated || lockStatus === 'loading' || (lockStatus === 'unlocked' && status === 'loading');
+  const hasCompletedOnboarding = status === 'signedIn';
+
+  if (lockStatus === 'locked' && isMigrated) {
+    return (
+      <View style={styles.lockContainer}>
+        <PasscodePad
+          title="Enter Passcode"
+          subtitle={profile ? `${profile.name}'s journal is locked` : 'Your journal is locked'}
+          error={unlockError}
+          busy={unlocking}
+          onComplete={handleUnlock}
+        />
+        {profiles.length > 1 && (
+          <TouchableOpacity style={styles.forgotButton} onPress={() => router.push('/profiles')} disabled={unlocking}>
+            <Text style={styles.forgotText}>Switch profile</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity style={styles.forgotButton} onPress={handleForgot} disabled={unlocking}>
+          <Text style={styles.forgotText}>Forgot passcode?</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
   if (isLoading) {
     return (
       <View style={styles.loadingContainer}>
@@ -54,4 +93,17 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginTop: 16,
   },
+  lockContainer: {
+    flex: 1,
+    backgroundColor: '#0C0C0C',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  forgotButton: {
+    padding: 12,
+  },
+  forgotText: {
+    color: '#8B7355',
+    fontSize: 14,
+  },
 });
@@ -0,0 +1,184 @@
+import { ageOn, parseLocalDate } from './dates';
+import { findCountry } from './countries';
+
+// Offline life expectancy model. For each country and sex we build a period life table
+// (ages 0–120) from a Siler-type mortality curve whose level is fitted so that life
+// expectancy at birth matches the published figure below. From the table we read the
+// expectancy *conditional on the user's current age*, then apply lifestyle answers as
+// proportional hazard ratios from that age on. Every step is reported in the breakdown.
+// Only the figure at birth is published data; the age curve is modelled, so everything past
+// the first step is an approximation and is labelled as one wherever it is shown.
+
+export type Sex = 'female' | 'male' | 'unspecified';
+export type Smoking = 'never' | 'former' | 'current';
+export type Activity = 'low' | 'moderate' | 'high';
+export type BmiBand = 'underweight' | 'normal' | 'overweight' | 'obese' | 'severely_obese';
+
+export interface LifestyleAnswers {
+  smoking?: Smoking;
+  activity?: Activity;
+  bmi?: BmiBand;
+}
+
+export interface EstimateInput {
+  birthDate: string;
+  country?: string;
+  sex: Sex;
+  lifestyle?: LifestyleAnswers;
+  today?: Date;
+}
+
+export interface EstimateStep {
+  label: string;
+  // Years added (or removed, when negative) by this step; the first step is the base value.
+  years: number;
+}
+
+export interface LifeExpectancyEstimate {
+  // Whole years from birth, ready for `UserProfile.life_expectancy`.
+  expectedAge: number;
+  currentAge: number;
+  remainingYears: number;
+  breakdown: EstimateStep[];
+}
+
+// World average, used when the country is unknown or has no estimate of its own.
+const WORLD_LIFE_EXPECTANCY_AT_BIRTH: [number, number] = [70.8, 75.9];
+
+// Relative all-cause mortality against the reference answer (never smoked, moderately
+// active, normal BMI), rounded from large cohort meta-analyses.
+const HAZARD_RATIOS = {
+  smoking: { never: 1, former: 1.3, current: 2.2 } as Record<Smoking, number>,
+  activity: { low: 1.3, moderate: 1, high: 0.8 } as Record<Activity, number>,
+  bmi: { underweight: 1.5, normal: 1, overweight: 1.05, obese: 1.3, severely_obese: 1.8 } as Record<BmiBand, number>,
+};
+
+export const LIFESTYLE_LABELS = {
+  smoking: { never: 'Never smoked', former: 'Former smoker', current: 'Current smoker' } as Record<Smoking, string>,
+  activity: { low: 'Rarely active', moderate: 'Moderately active', high: 'Very active' } as Record<Activity, string>,
+  bmi: {
+    underweight: 'BMI under 18.5',
+    normal: 'BMI 18.5–25',
+    overweight: 'BMI 25–30',
+    obese: 'BMI 30–35',
+    severely_obese: 'BMI over 35',
+  } as Record<BmiBand, string>,
+};
+
+const MAX_AGE = 120;
+// Shape of the mortality curve: infant term, age-independent background, and the
+// Gompertz slope of adult mortality (about +9% per year of age).
+const INFANT_LEVEL = 0.004;
+const INFANT_DECAY = 1.2;
+const BACKGROUND = 0.0003;
+const GOMPERTZ_SLOPE = 0.09;
+
+// Probability of dying within each year of age, indexed by age.
+type LifeTable = number[];
+
+const buildTable = (level: number): LifeTable =>
+  Array.from({ length: MAX_AGE + 1 }, (_, age) => {
+    // Integrated hazard over [age, age + 1).
+    const infant = (INFANT_LEVEL / INFANT_DECAY) * (Math.exp(-INFANT_DECAY * age) - Math.exp(-INFANT_DECAY * (age + 1)));
+    const adult = (level / GOMPERTZ_SLOPE) * (Math.exp(GOMPERTZ_SLOPE * (age + 1)) - Math.exp(GOMPERTZ_SLOPE * age));
+    return 1 - Math.exp(-(infant + BACKGROUND + adult));
+  });
+
+// Expected further years of life at `fromAge`, with hazards multiplied by `hazardRatio`.
+const remainingLife = (table: LifeTable, fromAge: number, hazardRatio = 1): number => {
+  let alive = 1;
+  let years = 0;
+  for (let age = fromAge; age <= MAX_AGE; age++) {
+    const dying = 1 - Math.pow(1 - table[age], hazardRatio);
+    const next = alive * (1 - dying);
+    years += (alive + next) / 2;
+    alive = next;
+  }
+  return years;
+};
+
+const tables = new Map<string, LifeTable>();
+
+// Fits the adult mortality level by bisection (in log space) to the target e0.
+const tableFor = (lifeExpectancyAtBirth: number): LifeTable => {
+  const cacheKey = lifeExpectancyAtBirth.toFixed(2);
+  const cached = tables.get(cacheKey);
+  if (cached) return cached;
+
+  let low = Math.log(1e-7);
+  let high = Math.log(1e-2);
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    // More adult mortality means a shorter life, so a too-long life needs a higher level.
+    if (remainingLife(buildTable(Math.exp(mid)), 0) > lifeExpectancyAtBirth) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  const table = buildTable(Math.exp((low + high) / 2));
+  tables.set(cacheKey, table);
+  return table;
+};
+
+const atBirthFor = (country: string | undefined, sex: Sex) => {
+  const [male, female] = findCountry(country)?.lifeExpectancyAtBirth ?? WORLD_LIFE_EXPECTANCY_AT_BIRTH;
+  if (sex === 'male') return male;
+  if (sex === 'female') return female;
+  return (male + female) / 2;
+};
+
+export const hasCountryData = (country?: string) => Boolean(findCountry(country)?.lifeExpectancyAtBirth);
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const estimateLifeExpectancy = ({
+  birthDate,
+  country,
+  sex,
+  lifestyle = {},
+  today = new Date(),
+}: EstimateInput): LifeExpectancyEstimate => {
+  const birth = parseLocalDate(birthDate);
+  const currentAge = birth ? Math.min(ageOn(birth, today), MAX_AGE) : 0;
+
+  const atBirth = atBirthFor(country, sex);
+  const table = tableFor(atBirth);
+  const sexLabel = sex === 'unspecified' ? 'all sexes' : sex === 'male' ? 'men' : 'women';
+  const place = hasCountryData(country) ? findCountry(country)!.name : 'the world';
+
+  const breakdown: EstimateStep[] = [
+    { label: `Life expectancy at birth for ${sexLabel} in ${place}`, years: round1(atBirth) },
+  ];
+
+  let hazardRatio = 1;
+  let remaining = remainingLife(table, currentAge);
+  if (currentAge > 0) {
+    // Surviving to today rules out every earlier death, so the total only grows with age.
+    breakdown.push({
+      label: `Having already reached ${currentAge} (modelled)`,
+      years: round1(currentAge + remaining - atBirth),
+    });
+  }
+
+  const factors: [string, number][] = [];
+  if (lifestyle.smoking) factors.push([LIFESTYLE_LABELS.smoking[lifestyle.smoking], HAZARD_RATIOS.smoking[lifestyle.smoking]]);
+  if (lifestyle.activity) factors.push([LIFESTYLE_LABELS.activity[lifestyle.activity], HAZARD_RATIOS.activity[lifestyle.activity]]);
+  if (lifestyle.bmi) factors.push([LIFESTYLE_LABELS.bmi[lifestyle.bmi], HAZARD_RATIOS.bmi[lifestyle.bmi]]);
+
+  factors.forEach(([label, ratio]) => {
+    if (ratio === 1) return;
+    hazardRatio *= ratio;
+    const adjusted = remainingLife(table, currentAge, hazardRatio);
+    breakdown.push({ label, years: round1(adjusted - remaining) });
+    remaining = adjusted;
+  });
+
+  return {
+    expectedAge: Math.min(Math.round(currentAge + remaining), MAX_AGE),
+    currentAge,
+    remainingYears: round1(remaining),
+    breakdown,
+  };
+};
@@ -0,0 +1,170 @@
+import Constants from 'expo-constants';
+import {
+  array,
+  CreateGoalInput,
+  CreateProfileInput,
+  CreateReflectionInput,
+  DeletionSummarySchema,
+  Goal,
+  GoalSchema,
+  MortalityStatsSchema,
+  QuoteSchema,
+  Reflection,
+  ReflectionSchema,
+  Schema,
+  UpdateProfileInput,
+  UserProfileSchema,
+  ValidationError,
+} from './models';
+
+// Single place the backend location is configured. Set `extra.EXPO_BACKEND_URL`
+// in app config (or EXPO_PUBLIC_BACKEND_URL in the environment) per build.
+export const BACKEND_URL: string =
+  Constants.expoConfig?.extra?.EXPO_BACKEND_URL ||
+  process.env.EXPO_PUBLIC_BACKEND_URL ||
+  'http://localhost:8001';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_RETRIES = 2;
+const BACKOFF_BASE_MS = 500;
+
+export type ApiErrorKind = 'network' | 'timeout' | 'http' | 'parse' | 'validation';
+
+export interface ApiError {
+  kind: ApiErrorKind;
+  message: string;
+  status?: number;
+}
+
+export type ApiResult<T> = { ok: true; data: T } | { ok: false; error: ApiError };
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  body?: unknown;
+  // Sent as Idempotency-Key, so the server can recognise a create it has already stored.
+  idempotencyKey?: string;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Network failures, timeouts and 5xx responses are worth another attempt; 4xx are not.
+const isRetryable = (error: ApiError) =>
+  error.kind === 'network' ||
+  error.kind === 'timeout' ||
+  (error.kind === 'http' && (error.status ?? 0) >= 500);
+
+const attempt = async <T>(path: string, schema: Schema<T>, options: RequestOptions): Promise<ApiResult<T>> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+  try {
+    const headers: Record<string, string> = {};
+    if (options.body !== undefined) headers['Content-Type'] = 'application/json';
+    if (options.idempotencyKey) headers['Idempotency-Key'] = options.idempotencyKey;
+
+    const response = await fetch(`${BACKEND_URL}${path}`, {
+      method: options.method ?? 'GET',
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      return {
+        ok: false,
+        error: { kind: 'http', status: response.status, message: text || `HTTP ${response.status}` },
+      };
+    }
+
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch {
+      if (controller.signal.aborted) throw new Error('Request timed out');
+      return { ok: false, error: { kind: 'parse', status: response.status, message: 'Invalid JSON response' } };
+    }
+
+    // Nothing reaches screen state without matching the model. Whatever a validator throws,
+    // the server did answer, so it is never reported as a network error (and never retried).
+    try {
+      return { ok: true, data: schema(body) };
+    } catch (error) {
+      const message =
+        error instanceof ValidationError
+          ? error.message
+          : `Unexpected response shape: ${error instanceof Error ? error.message : String(error)}`;
+      console.error(`Malformed response from ${path}:`, message);
+      return { ok: false, error: { kind: 'validation', status: response.status, message } };
+    }
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return { ok: false, error: { kind: 'timeout', message: 'Request timed out' } };
+    }
+    const message = error instanceof Error ? error.message : 'Network request failed';
+    return { ok: false, error: { kind: 'network', message } };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const request = async <T>(
+  path: string,
+  schema: Schema<T>,
+  options: RequestOptions = {}
+): Promise<ApiResult<T>> => {
+  // POST is not idempotent, so it only retries when the caller opts in.
+  const retries = options.retries ?? (options.method === 'POST' ? 0 : DEFAULT_RETRIES);
+
+  let result = await attempt(path, schema, options);
+  for (let i = 0; i < retries && !result.ok && isRetryable(result.error); i++) {
+    await sleep(BACKOFF_BASE_MS * 2 ** i);
+    result = await attempt(path, schema, options);
+  }
+  return result;
+};
+
+const query = (params: Record<string, string | undefined>) => {
+  const entries = Object.entries(params).filter(([, value]) => value !== undefined) as [string, string][];
+  if (entries.length === 0) return '';
+  return '?' + entries.map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join('&');
+};
+
+export const api = {
+  createProfile: (input: CreateProfileInput) =>
+    request('/api/profile', UserProfileSchema, { method: 'POST', body: input }),
+
+  getProfile: (profileId: string) =>
+    request(`/api/profile/${profileId}`, UserProfileSchema),
+
+  updateProfile: (profileId: string, input: UpdateProfileInput) =>
+    request(`/api/profile/${profileId}`, UserProfileSchema, { method: 'PUT', body: input }),
+
+  // Removes the profile with all of its goals and reflections.
+  deleteProfile: (profileId: string) =>
+    request(`/api/profile/${profileId}`, DeletionSummarySchema, { method: 'DELETE' }),
+
+  getMortalityStats: (profileId: string) =>
+    request(`/api/mortality/${profileId}`, MortalityStatsSchema),
+
+  getDailyQuote: () =>
+    request('/api/quotes/daily', QuoteSchema),
+
+  getGoals: (userId: string, status?: Goal['status']) =>
+    request(`/api/goals/${userId}${query({ status })}`, array(GoalSchema)),
+
+  // Replaying a create with the same key returns the record the first attempt stored.
+  createGoal: (input: CreateGoalInput, idempotencyKey?: string) =>
+    request('/api/goals', GoalSchema, { method: 'POST', body: input, idempotencyKey }),
+
+  updateGoalStatus: (goalId: string, status: Goal['status']) =>
+    request(`/api/goals/${goalId}`, GoalSchema, { method: 'PUT', body: { status } }),
+
+  getReflections: (userId: string, type?: Reflection['type']) =>
+    request(`/api/reflections/${userId}${query({ type })}`, array(ReflectionSchema)),
+
+  createReflection: (input: CreateReflectionInput, idempotencyKey?: string) =>
+    request('/api/reflections', ReflectionSchema, { method: 'POST', body: input, idempotencyKey }),
+};
@@ -0,0 +1,83 @@
+import { daysBetween, parseLocalDate, startOfDay } from './dates';
+import { generateId } from './ids';
+import type { LifeChapter } from './models';
+import { store } from './store';
+
+export const CHAPTER_COLORS = [
+  '#4FC3F7',
+  '#81C784',
+  '#BA68C8',
+  '#FF8A65',
+  '#F06292',
+  '#4DB6AC',
+  '#9575CD',
+  '#A1887F',
+];
+
+export type ChapterInput = Omit<LifeChapter, 'id'>;
+
+const byStartDate = (a: LifeChapter, b: LifeChapter) => a.start_date.localeCompare(b.start_date);
+
+// Chapters may lie in the future ("retirement"), but not before birth, and one that is
+// still going on must already have begun.
+export const validateChapter = (input: ChapterInput, birthDate: string, today: Date = new Date()): string | null => {
+  if (!input.title.trim()) return 'Please give the chapter a name.';
+
+  const start = parseLocalDate(input.start_date);
+  if (!start) return 'Please enter a real start date.';
+  const birth = parseLocalDate(birthDate);
+  if (birth && start < birth) return "A chapter can't start before you were born.";
+
+  if (input.end_date === null) {
+    return start > startOfDay(today) ? 'A chapter that starts in the future needs an end date.' : null;
+  }
+  const end = parseLocalDate(input.end_date);
+  if (!end) return 'Please enter a real end date.';
+  if (end < start) return "A chapter can't end before it starts.";
+  return null;
+};
+
+export const getChapters = async (profileId: string) => (await store.getChapters(profileId)).sort(byStartDate);
+
+export const saveChapter = async (profileId: string, input: ChapterInput, id?: string): Promise<LifeChapter[]> => {
+  const chapters = await store.getChapters(profileId);
+  const chapter: LifeChapter = { ...input, title: input.title.trim(), id: id ?? generateId('chapter_') };
+  const next = id ? chapters.map((item) => (item.id === id ? chapter : item)) : [...chapters, chapter];
+  await store.setChapters(profileId, next);
+  return next.sort(byStartDate);
+};
+
+export const deleteChapter = async (profileId: string, id: string): Promise<LifeChapter[]> => {
+  const next = (await store.getChapters(profileId)).filter((item) => item.id !== id);
+  await store.setChapters(profileId, next);
+  return next.sort(byStartDate);
+};
+
+export interface ChapterSpan {
+  id: string;
+  color: string;
+  // Days since birth, end exclusive, on the same scale as calendar cells.
+  startDay: number;
+  endDay: number;
+}
+
+// Chapters as day ranges from birth. An ongoing chapter runs up to and including today.
+export const chapterSpans = (birth: Date, chapters: LifeChapter[], now: Date = new Date()): ChapterSpan[] =>
+  chapters.flatMap((chapter) => {
+    const start = parseLocalDate(chapter.start_date);
+    const end = chapter.end_date ? parseLocalDate(chapter.end_date) : startOfDay(now);
+    if (!start || !end) return [];
+    return [{ id: chapter.id, color: chapter.color, startDay: daysBetween(birth, start), endDay: daysBetween(birth, end) + 1 }];
+  });
+
+// The chapter drawn under a cell. Where chapters overlap the one that started last wins,
+// so a shorter era inside a longer one ("a year abroad" during "university") stays visible.
+export const chapterForCell = (spans: ChapterSpan[], startDay: number, endDay: number): ChapterSpan | null => {
+  let found: ChapterSpan | null = null;
+  for (const span of spans) {
+    if (span.startDay < endDay && span.endDay > startDay && (!found || span.startDay >= found.startDay)) {
+      found = span;
+    }
+  }
+  return found;
+};
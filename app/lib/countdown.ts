@@ -0,0 +1,53 @@
+import { daysBetween, daysInMonth } from './dates';
+
+export interface TimeRemaining {
+  years: number;
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  // True once `to` has been reached; every unit is then zero.
+  done: boolean;
+}
+
+// `date` moved by whole calendar years and days, keeping its time of day. Feb 29 becomes
+// Feb 28 in common years, as in `addYears`.
+const shift = (date: Date, years: number, days = 0): Date => {
+  const year = date.getFullYear() + years;
+  const day = Math.min(date.getDate(), daysInMonth(year, date.getMonth()));
+  return new Date(
+    year,
+    date.getMonth(),
+    day + days,
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds()
+  );
+};
+
+// Wall-clock time from `from` until `to`: whole calendar years first, then whole calendar
+// days, then the rest. Unlike dividing by 365.25-day years, the years roll over on the
+// anniversary and days on the local midnight, including across leap years and DST changes.
+export const timeRemaining = (from: Date, to: Date): TimeRemaining => {
+  if (to.getTime() <= from.getTime()) {
+    return { years: 0, days: 0, hours: 0, minutes: 0, seconds: 0, done: true };
+  }
+
+  let years = to.getFullYear() - from.getFullYear();
+  if (shift(from, years) > to) years -= 1;
+  const afterYears = shift(from, years);
+
+  let days = daysBetween(afterYears, to);
+  if (shift(from, years, days) > to) days -= 1;
+
+  const rest = Math.floor((to.getTime() - shift(from, years, days).getTime()) / 1000);
+  return {
+    years,
+    days,
+    hours: Math.floor(rest / 3600),
+    minutes: Math.floor((rest % 3600) / 60),
+    seconds: rest % 60,
+    done: false,
+  };
+};
@@ -0,0 +1,329 @@
+// Every ISO 3166-1 country and territory, bundled so the picker and the actuarial model
+// work offline. Life expectancy at birth is [male, female] from the WHO Global Health
+// Observatory (2019) for member states and UN World Population Prospects 2019 for other
+// territories. Small territories without their own estimate use the administering
+// country's; uninhabited ones have none and fall back to the world average.
+
+export interface Country {
+  code: string;
+  name: string;
+  lifeExpectancyAtBirth: [number, number] | null;
+}
+
+type Row = [code: string, name: string, male?: number, female?: number];
+
+const ROWS: Row[] = [
+  ['AD', 'Andorra', 81.0, 85.0],
+  ['AE', 'United Arab Emirates', 75.1, 78.4],
+  ['AF', 'Afghanistan', 63.3, 63.2],
+  ['AG', 'Antigua and Barbuda', 75.3, 78.4],
+  ['AI', 'Anguilla', 78.9, 84.4],
+  ['AL', 'Albania', 76.3, 79.9],
+  ['AM', 'Armenia', 72.4, 79.5],
+  ['AO', 'Angola', 60.7, 65.8],
+  ['AQ', 'Antarctica'],
+  ['AR', 'Argentina', 74.0, 80.0],
+  ['AS', 'American Samoa', 71.5, 77.6],
+  ['AT', 'Austria', 79.4, 84.0],
+  ['AU', 'Australia', 81.3, 84.8],
+  ['AW', 'Aruba', 74.2, 79.6],
+  ['AX', 'Åland Islands', 79.2, 84.5],
+  ['AZ', 'Azerbaijan', 69.6, 73.9],
+  ['BA', 'Bosnia and Herzegovina', 74.6, 79.3],
+  ['BB', 'Barbados', 74.5, 77.7],
+  ['BD', 'Bangladesh', 72.6, 75.6],
+  ['BE', 'Belgium', 79.3, 83.5],
+  ['BF', 'Burkina Faso', 62.0, 63.6],
+  ['BG', 'Bulgaria', 71.6, 78.6],
+  ['BH', 'Bahrain', 74.8, 76.4],
+  ['BI', 'Burundi', 61.8, 65.5],
+  ['BJ', 'Benin', 62.4, 65.0],
+  ['BL', 'Saint Barthélemy', 79.8, 85.1],
+  ['BM', 'Bermuda', 78.3, 84.8],
+  ['BN', 'Brunei', 73.5, 75.6],
+  ['BO', 'Bolivia', 71.0, 73.9],
+  ['BQ', 'Caribbean Netherlands', 75.0, 81.6],
+  ['BR', 'Brazil', 72.4, 79.4],
+  ['BS', 'Bahamas', 71.2, 76.3],
+  ['BT', 'Bhutan', 72.8, 73.8],
+  ['BV', 'Bouvet Island'],
+  ['BW', 'Botswana', 59.1, 65.0],
+  ['BY', 'Belarus', 69.7, 79.4],
+  ['BZ', 'Belize', 71.9, 77.8],
+  ['CA', 'Canada', 80.4, 84.1],
+  ['CC', 'Cocos (Keeling) Islands', 81.3, 84.8],
+  ['CD', 'Congo (Democratic Republic)', 60.6, 64.0],
+  ['CF', 'Central African Republic', 51.6, 56.6],
+  ['CG', 'Congo', 63.5, 66.2],
+  ['CH', 'Switzerland', 81.8, 85.1],
+  ['CI', "Côte d'Ivoire", 61.3, 64.3],
+  ['CK', 'Cook Islands', 72.6, 78.0],
+  ['CL', 'Chile', 78.1, 82.7],
+  ['CM', 'Cameroon', 61.7, 64.7],
+  ['CN', 'China', 74.7, 80.5],
+  ['CO', 'Colombia', 76.7, 81.8],
+  ['CR', 'Costa Rica', 77.8, 82.8],
+  ['CU', 'Cuba', 75.9, 80.3],
+  ['CV', 'Cabo Verde', 70.9, 76.1],
+  ['CW', 'Curaçao', 75.0, 81.6],
+  ['CX', 'Christmas Island', 81.3, 84.8],
+  ['CY', 'Cyprus', 81.1, 85.1],
+  ['CZ', 'Czechia', 76.3, 82.0],
+  ['DE', 'Germany', 78.7, 83.3],
+  ['DJ', 'Djibouti', 63.6, 66.6],
+  ['DK', 'Denmark', 79.6, 83.1],
+  ['DM', 'Dominica', 72.9, 78.1],
+  ['DO', 'Dominican Republic', 70.1, 77.5],
+  ['DZ', 'Algeria', 76.2, 78.1],
+  ['EC', 'Ecuador', 75.6, 80.5],
+  ['EE', 'Estonia', 74.4, 82.4],
+  ['EG', 'Egypt', 69.6, 74.1],
+  ['EH', 'Western Sahara', 68.4, 72.0],
+  ['ER', 'Eritrea', 64.1, 68.9],
+  ['ES', 'Spain', 80.7, 86.2],
+  ['ET', 'Ethiopia', 66.9, 70.8],
+  ['FI', 'Finland', 79.2, 84.5],
+  ['FJ', 'Fiji', 66.4, 70.6],
+  ['FK', 'Falkland Islands', 79.8, 83.0],
+  ['FM', 'Micronesia', 65.7, 69.6],
+  ['FO', 'Faroe Islands', 80.7, 84.6],
+  ['FR', 'France', 79.8, 85.1],
+  ['GA', 'Gabon', 64.8, 69.8],
+  ['GB', 'United Kingdom', 79.8, 83.0],
+  ['GD', 'Grenada', 70.6, 75.8],
+  ['GE', 'Georgia', 69.1, 78.3],
+  ['GF', 'French Guiana', 77.1, 83.9],
+  ['GG', 'Guernsey', 79.8, 83.0],
+  ['GH', 'Ghana', 63.2, 65.3],
+  ['GI', 'Gibraltar', 79.8, 83.0],
+  ['GL', 'Greenland', 69.8, 74.2],
+  ['GM', 'Gambia', 63.1, 66.0],
+  ['GN', 'Guinea', 60.8, 61.1],
+  ['GP', 'Guadeloupe', 77.9, 84.9],
+  ['GQ', 'Equatorial Guinea', 62.4, 65.1],
+  ['GR', 'Greece', 79.3, 84.1],
+  ['GS', 'South Georgia and the South Sandwich Islands'],
+  ['GT', 'Guatemala', 69.4, 75.5],
+  ['GU', 'Guam', 77.0, 83.0],
+  ['GW', 'Guinea-Bissau', 59.5, 63.4],
+  ['GY', 'Guyana', 63.7, 68.7],
+  ['HK', 'Hong Kong', 82.2, 88.1],
+  ['HM', 'Heard Island and McDonald Islands'],
+  ['HN', 'Honduras', 69.9, 74.8],
+  ['HR', 'Croatia', 75.5, 81.4],
+  ['HT', 'Haiti', 62.3, 66.6],
+  ['HU', 'Hungary', 73.1, 79.7],
+  ['ID', 'Indonesia', 69.4, 73.3],
+  ['IE', 'Ireland', 80.2, 83.5],
+  ['IL', 'Israel', 81.0, 84.4],
+  ['IM', 'Isle of Man', 79.8, 83.0],
+  ['IN', 'India', 69.5, 72.2],
+  ['IO', 'British Indian Ocean Territory'],
+  ['IQ', 'Iraq', 70.7, 74.6],
+  ['IR', 'Iran', 75.7, 79.1],
+  ['IS', 'Iceland', 81.7, 84.5],
+  ['IT', 'Italy', 80.9, 84.9],
+  ['JE', 'Jersey', 79.8, 83.0],
+  ['JM', 'Jamaica', 74.1, 78.4],
+  ['JO', 'Jordan', 75.5, 79.0],
+  ['JP', 'Japan', 81.5, 86.9],
+  ['KE', 'Kenya', 63.7, 68.5],
+  ['KG', 'Kyrgyzstan', 69.3, 77.1],
+  ['KH', 'Cambodia', 67.8, 72.3],
+  ['KI', 'Kiribati', 57.2, 62.6],
+  ['KM', 'Comoros', 63.9, 66.7],
+  ['KN', 'Saint Kitts and Nevis', 71.3, 76.4],
+  ['KP', 'North Korea', 68.2, 75.5],
+  ['KR', 'South Korea', 80.3, 86.1],
+  ['KW', 'Kuwait', 79.7, 81.8],
+  ['KY', 'Cayman Islands', 80.0, 84.1],
+  ['KZ', 'Kazakhstan', 69.6, 77.6],
+  ['LA', 'Laos', 64.8, 69.2],
+  ['LB', 'Lebanon', 75.1, 78.7],
+  ['LC', 'Saint Lucia', 71.7, 77.0],
+  ['LI', 'Liechtenstein', 80.5, 84.4],
+  ['LK', 'Sri Lanka', 73.8, 80.1],
+  ['LR', 'Liberia', 62.8, 65.0],
+  ['LS', 'Lesotho', 47.7, 54.2],
+  ['LT', 'Lithuania', 71.2, 80.7],
+  ['LU', 'Luxembourg', 80.6, 84.6],
+  ['LV', 'Latvia', 70.9, 79.7],
+  ['LY', 'Libya', 73.4, 78.0],
+  ['MA', 'Morocco', 72.6, 74.8],
+  ['MC', 'Monaco', 83.0, 87.0],
+  ['MD', 'Moldova', 69.0, 77.2],
+  ['ME', 'Montenegro', 74.9, 79.5],
+  ['MF', 'Saint Martin (French part)', 79.8, 85.1],
+  ['MG', 'Madagascar', 63.2, 66.7],
+  ['MH', 'Marshall Islands', 63.9, 68.0],
+  ['MK', 'North Macedonia', 75.2, 79.1],
+  ['ML', 'Mali', 62.2, 63.8],
+  ['MM', 'Myanmar', 64.6, 70.0],
+  ['MN', 'Mongolia', 64.8, 73.9],
+  ['MO', 'Macao', 81.1, 87.1],
+  ['MP', 'Northern Mariana Islands', 74.3, 80.6],
+  ['MQ', 'Martinique', 79.3, 85.5],
+  ['MR', 'Mauritania', 66.8, 69.8],
+  ['MS', 'Montserrat', 73.1, 77.1],
+  ['MT', 'Malta', 80.7, 84.4],
+  ['MU', 'Mauritius', 71.4, 78.0],
+  ['MV', 'Maldives', 78.6, 80.8],
+  ['MW', 'Malawi', 61.4, 68.0],
+  ['MX', 'Mexico', 73.1, 78.8],
+  ['MY', 'Malaysia', 72.6, 77.1],
+  ['MZ', 'Mozambique', 55.9, 61.8],
+  ['NA', 'Namibia', 60.7, 67.0],
+  ['NC', 'New Caledonia', 74.9, 80.9],
+  ['NE', 'Niger', 62.1, 64.2],
+  ['NF', 'Norfolk Island', 81.3, 84.8],
+  ['NG', 'Nigeria', 62.2, 63.7],
+  ['NI', 'Nicaragua', 72.6, 78.5],
+  ['NL', 'Netherlands', 80.4, 83.1],
+  ['NO', 'Norway', 81.1, 84.3],
+  ['NP', 'Nepal', 69.2, 72.7],
+  ['NR', 'Nauru', 58.0, 64.0],
+  ['NU', 'Niue', 69.5, 75.5],
+  ['NZ', 'New Zealand', 80.4, 83.5],
+  ['OM', 'Oman', 73.7, 78.3],
+  ['PA', 'Panama', 76.2, 82.3],
+  ['PE', 'Peru', 75.9, 80.6],
+  ['PF', 'French Polynesia', 75.2, 80.3],
+  ['PG', 'Papua New Guinea', 63.1, 67.3],
+  ['PH', 'Philippines', 66.2, 73.2],
+  ['PK', 'Pakistan', 64.6, 66.7],
+  ['PL', 'Poland', 74.5, 81.9],
+  ['PM', 'Saint Pierre and Miquelon', 79.8, 85.1],
+  ['PN', 'Pitcairn', 79.8, 83.0],
+  ['PR', 'Puerto Rico', 76.2, 83.5],
+  ['PS', 'Palestine', 72.1, 75.7],
+  ['PT', 'Portugal', 78.6, 84.4],
+  ['PW', 'Palau', 69.0, 76.0],
+  ['PY', 'Paraguay', 72.1, 77.3],
+  ['QA', 'Qatar', 77.7, 80.1],
+  ['RE', 'Réunion', 77.5, 84.3],
+  ['RO', 'Romania', 72.0, 79.3],
+  ['RS', 'Serbia', 73.4, 78.6],
+  ['RU', 'Russia', 68.2, 78.0],
+  ['RW', 'Rwanda', 67.1, 71.2],
+  ['SA', 'Saudi Arabia', 73.4, 76.4],
+  ['SB', 'Solomon Islands', 64.9, 67.2],
+  ['SC', 'Seychelles', 69.2, 77.3],
+  ['SD', 'Sudan', 67.3, 70.9],
+  ['SE', 'Sweden', 80.8, 84.1],
+  ['SG', 'Singapore', 81.0, 85.5],
+  ['SH', 'Saint Helena, Ascension and Tristan da Cunha', 79.8, 83.0],
+  ['SI', 'Slovenia', 78.5, 84.1],
+  ['SJ', 'Svalbard and Jan Mayen', 81.1, 84.3],
+  ['SK', 'Slovakia', 74.8, 81.4],
+  ['SL', 'Sierra Leone', 60.2, 61.2],
+  ['SM', 'San Marino', 81.5, 85.5],
+  ['SN', 'Senegal', 66.6, 70.3],
+  ['SO', 'Somalia', 54.4, 58.6],
+  ['SR', 'Suriname', 68.7, 74.6],
+  ['SS', 'South Sudan', 60.6, 64.0],
+  ['ST', 'São Tomé and Príncipe', 68.0, 72.2],
+  ['SV', 'El Salvador', 71.5, 80.1],
+  ['SX', 'Sint Maarten (Dutch part)', 76.0, 80.9],
+  ['SY', 'Syria', 68.9, 75.9],
+  ['SZ', 'Eswatini', 53.7, 61.1],
+  ['TC', 'Turks and Caicos Islands', 78.0, 82.1],
+  ['TD', 'Chad', 58.5, 61.2],
+  ['TF', 'French Southern Territories'],
+  ['TG', 'Togo', 62.3, 64.0],
+  ['TH', 'Thailand', 74.4, 81.0],
+  ['TJ', 'Tajikistan', 69.5, 73.3],
+  ['TK', 'Tokelau', 67.0, 72.0],
+  ['TL', 'Timor-Leste', 67.9, 70.6],
+  ['TM', 'Turkmenistan', 66.1, 72.5],
+  ['TN', 'Tunisia', 74.1, 78.1],
+  ['TO', 'Tonga', 69.0, 73.5],
+  ['TR', 'Türkiye', 75.5, 81.6],
+  ['TT', 'Trinidad and Tobago', 73.2, 78.5],
+  ['TV', 'Tuvalu', 63.0, 68.9],
+  ['TW', 'Taiwan', 78.1, 84.2],
+  ['TZ', 'Tanzania', 64.7, 68.5],
+  ['UA', 'Ukraine', 68.0, 77.8],
+  ['UG', 'Uganda', 64.0, 69.3],
+  ['UM', 'United States Minor Outlying Islands'],
+  ['US', 'United States', 76.3, 80.7],
+  ['UY', 'Uruguay', 74.1, 80.7],
+  ['UZ', 'Uzbekistan', 71.3, 75.0],
+  ['VA', 'Vatican City', 80.9, 84.9],
+  ['VC', 'Saint Vincent and the Grenadines', 70.7, 75.2],
+  ['VE', 'Venezuela', 70.0, 78.6],
+  ['VG', 'British Virgin Islands', 77.8, 81.4],
+  ['VI', 'United States Virgin Islands', 76.0, 82.4],
+  ['VN', 'Vietnam', 69.6, 79.2],
+  ['VU', 'Vanuatu', 63.2, 67.3],
+  ['WF', 'Wallis and Futuna', 76.9, 81.3],
+  ['WS', 'Samoa', 69.8, 73.9],
+  ['YE', 'Yemen', 64.8, 68.0],
+  ['YT', 'Mayotte', 73.9, 78.3],
+  ['ZA', 'South Africa', 61.5, 68.3],
+  ['ZM', 'Zambia', 59.5, 64.8],
+  ['ZW', 'Zimbabwe', 58.4, 62.9],
+];
+
+// Other names people type into the search box.
+const ALIASES: { [code: string]: string[] } = {
+  AE: ['UAE', 'Emirates'],
+  CD: ['DRC', 'Zaire'],
+  CI: ['Ivory Coast'],
+  CV: ['Cape Verde'],
+  CZ: ['Czech Republic'],
+  GB: ['UK', 'Great Britain', 'Britain', 'England', 'Scotland', 'Wales', 'Northern Ireland'],
+  KP: ['DPRK'],
+  KR: ['Korea'],
+  MK: ['Macedonia'],
+  MM: ['Burma'],
+  NL: ['Holland'],
+  SZ: ['Swaziland'],
+  TL: ['East Timor'],
+  TR: ['Turkey'],
+  US: ['USA', 'America'],
+  VA: ['Holy See'],
+};
+
+export const COUNTRIES: Country[] = ROWS.map(([code, name, male, female]): Country => ({
+  code,
+  name,
+  lifeExpectancyAtBirth: male !== undefined && female !== undefined ? [male, female] : null,
+})).sort((a, b) => a.name.localeCompare(b.name));
+
+const BY_CODE = new Map(COUNTRIES.map((country) => [country.code, country]));
+
+export const findCountry = (code?: string | null): Country | undefined =>
+  code ? BY_CODE.get(code.toUpperCase()) : undefined;
+
+export const isCountryCode = (code: string) => BY_CODE.has(code.toUpperCase());
+
+// Regional indicator symbols: the two letters of the code render as the country's flag.
+export const flagEmoji = (code: string) =>
+  String.fromCodePoint(...code.toUpperCase().split('').map((letter) => 0x1f1e6 + letter.charCodeAt(0) - 65));
+
+// Case- and accent-insensitive, so "reunion" finds "Réunion".
+const fold = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const SEARCH_TEXT = new Map(
+  COUNTRIES.map((country) => [country.code, [country.name, ...(ALIASES[country.code] ?? [])].map(fold)])
+);
+
+// Exact code, name or alias matches first, then names starting with the query, then the rest.
+export const searchCountries = (query: string): Country[] => {
+  const needle = fold(query.trim());
+  if (!needle) return COUNTRIES;
+
+  const rank = (country: Country) => {
+    const names = SEARCH_TEXT.get(country.code)!;
+    if (country.code.toLowerCase() === needle || names.includes(needle)) return 0;
+    if (names.some((name) => name.startsWith(needle))) return 1;
+    if (names.some((name) => name.includes(needle))) return 2;
+    return -1;
+  };
+
+  return COUNTRIES.map((country) => ({ country, score: rank(country) }))
+    .filter(({ score }) => score >= 0)
+    .sort((a, b) => a.score - b.score)
+    .map(({ country }) => country);
+};
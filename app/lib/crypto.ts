@@ -0,0 +1,31 @@
+import * as Crypto from 'expo-crypto';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { bytesToHex, bytesToUtf8, hexToBytes, utf8ToBytes } from '@noble/ciphers/utils';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+
+const NONCE_BYTES = 24;
+const KEY_BYTES = 32;
+
+// Tuned so unlocking stays around a second on mid-range phones; stored with each
+// passcode so it can be raised later without locking anyone out.
+export const KDF_ITERATIONS = 60000;
+
+export const randomHex = (bytes: number) => bytesToHex(Crypto.getRandomBytes(bytes));
+
+export const deriveKey = (passcode: string, saltHex: string, iterations: number): Promise<Uint8Array> =>
+  pbkdf2Async(sha256, utf8ToBytes(passcode), hexToBytes(saltHex), { c: iterations, dkLen: KEY_BYTES });
+
+// Output is hex(nonce || ciphertext || tag); a fresh random nonce per call.
+export const seal = (key: Uint8Array, plaintext: string): string => {
+  const nonce = Crypto.getRandomBytes(NONCE_BYTES);
+  const ciphertext = xchacha20poly1305(key, nonce).encrypt(utf8ToBytes(plaintext));
+  return bytesToHex(nonce) + bytesToHex(ciphertext);
+};
+
+// Throws when the key is wrong or the data was tampered with.
+export const open = (key: Uint8Array, sealed: string): string => {
+  const bytes = hexToBytes(sealed);
+  const nonce = bytes.subarray(0, NONCE_BYTES);
+  return bytesToUtf8(xchacha20poly1305(key, nonce).decrypt(bytes.subarray(NONCE_BYTES)));
+};
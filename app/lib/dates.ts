@@ -0,0 +1,126 @@
+// Calendar dates (birth dates, goal targets) are stored as 'YYYY-MM-DD' strings and
+// handled as local midnights, never as instants: `new Date('1990-12-25')` is UTC midnight,
+// which is the previous day west of Greenwich.
+
+export const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Builds a local date, or null when the parts roll over (Feb 31, month 13, ...).
+const localDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(year, month - 1, day);
+  date.setFullYear(year);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+};
+
+export const parseLocalDate = (dateString: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateString);
+  if (!match) return null;
+  return localDate(Number(match[1]), Number(match[2]), Number(match[3]));
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+export const toDateString = (date: Date): string =>
+  `${pad(date.getFullYear(), 4)}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const startOfDay = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const isLeapYear = (year: number): boolean =>
+  (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+
+export const daysInMonth = (year: number, month: number): number =>
+  new Date(year, month + 1, 0).getDate();
+
+// Whole calendar days between two local dates. Going through UTC keeps DST
+// transitions (23h/25h days) from skewing the count.
+export const daysBetween = (from: Date, to: Date): number => {
+  const fromUtc = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+  const toUtc = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((toUtc - fromUtc) / MS_PER_DAY);
+};
+
+export const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Adds calendar years, clamping Feb 29 to Feb 28 when the target year is not a leap year.
+export const addYears = (date: Date, years: number): Date => {
+  const year = date.getFullYear() + years;
+  const day = Math.min(date.getDate(), daysInMonth(year, date.getMonth()));
+  return new Date(year, date.getMonth(), day);
+};
+
+// Adds calendar months, clamping to the last day of shorter months (Jan 31 + 1 → Feb 28).
+export const addMonths = (date: Date, months: number): Date => {
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const day = Math.min(date.getDate(), daysInMonth(target.getFullYear(), target.getMonth()));
+  return new Date(target.getFullYear(), target.getMonth(), day);
+};
+
+export const ageOn = (birthDate: Date, on: Date): number => {
+  let age = on.getFullYear() - birthDate.getFullYear();
+  if (startOfDay(on) < addYears(birthDate, age)) {
+    age -= 1;
+  }
+  return Math.max(0, age);
+};
+
+type DatePart = 'day' | 'month' | 'year';
+
+// The order the user's locale writes dates in, e.g. day-month-year in the UK and
+// month-day-year in the US.
+export const localeDateOrder = (locale?: string): DatePart[] => {
+  try {
+    const order = new Intl.DateTimeFormat(locale, { year: 'numeric', month: '2-digit', day: '2-digit' })
+      .formatToParts(new Date(2000, 11, 31))
+      .map((part) => part.type)
+      .filter((type): type is DatePart => type === 'day' || type === 'month' || type === 'year');
+    if (order.length === 3) return order;
+  } catch {
+    // Engines without full Intl support fall through to ISO order.
+  }
+  return ['year', 'month', 'day'];
+};
+
+const PART_PLACEHOLDER: Record<DatePart, string> = { day: 'DD', month: 'MM', year: 'YYYY' };
+
+export const localeDatePlaceholder = (locale?: string) =>
+  localeDateOrder(locale).map((part) => PART_PLACEHOLDER[part]).join('/');
+
+// Reads what someone typed: ISO 'YYYY-MM-DD' always works; otherwise three numbers
+// separated by '/', '.', '-' or spaces, in the locale's order. Years need all four
+// digits so '01/02/03' can't be guessed wrong. Impossible dates come back as null.
+export const parseDateInput = (text: string, locale?: string): Date | null => {
+  const parts = text.trim().split(/[\s./-]+/);
+  if (parts.length !== 3 || !parts.every((part) => /^\d{1,4}$/.test(part))) return null;
+
+  const order: DatePart[] = parts[0].length === 4 ? ['year', 'month', 'day'] : localeDateOrder(locale);
+  const values = {} as Record<DatePart, string>;
+  order.forEach((part, index) => {
+    values[part] = parts[index];
+  });
+  if (values.year.length !== 4 || values.month.length > 2 || values.day.length > 2) return null;
+
+  return localDate(Number(values.year), Number(values.month), Number(values.day));
+};
+
+// A stored 'YYYY-MM-DD' in the user's locale, e.g. "25 December 1990".
+export const formatLocalDate = (
+  dateString: string,
+  options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'long', day: 'numeric' }
+): string => {
+  const date = parseLocalDate(dateString);
+  return date ? date.toLocaleDateString(undefined, options) : dateString;
+};
+
+// The inverse of `parseDateInput`: how a date is shown in a text field, e.g. "25/12/1990".
+export const formatDateInput = (date: Date, locale?: string): string => {
+  const values: Record<DatePart, string> = {
+    day: pad(date.getDate()),
+    month: pad(date.getMonth() + 1),
+    year: pad(date.getFullYear(), 4),
+  };
+  return localeDateOrder(locale).map((part) => values[part]).join('/');
+};
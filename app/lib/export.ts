@@ -0,0 +1,214 @@
+import { Platform, Share } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { parseLocalDate, toDateString } from './dates';
+import { Goal, LifeChapter, MomentFraming, QuoteLibrary, Reflection, UserProfile, WeekNote } from './models';
+import { Local, store } from './store';
+import { refreshGoals, refreshReflections } from './sync';
+
+export const BACKUP_FORMAT = 'momento-mori-backup';
+// v2 added the data kept only on the device; v1 files restore with none of it.
+export const BACKUP_VERSION = 2;
+
+// A profile's data that never reaches the server. Framings and the quote library stay null
+// until the profile changes the defaults, so a backup doesn't pin today's defaults.
+export interface DeviceData {
+  chapters: LifeChapter[];
+  week_notes: WeekNote[];
+  moments: MomentFraming[] | null;
+  quote_library: QuoteLibrary | null;
+}
+
+export interface Backup extends DeviceData {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exported_at: string;
+  profile: UserProfile;
+  goals: Goal[];
+  reflections: Reflection[];
+}
+
+export type ExportFormat = 'json' | 'csv' | 'markdown';
+
+interface ExportFile {
+  name: string;
+  mimeType: string;
+  contents: string;
+}
+
+// Sync bookkeeping is device state, not user data; keep it out of exports.
+const stripSync = <T extends object>({ sync_status: _status, sync_error: _error, ...item }: Local<T>) =>
+  item as unknown as T;
+
+export const NO_DEVICE_DATA: DeviceData = { chapters: [], week_notes: [], moments: null, quote_library: null };
+
+export const readDeviceData = async (profileId: string): Promise<DeviceData> => {
+  const [chapters, week_notes, moments, quote_library] = await Promise.all([
+    store.getChapters(profileId),
+    store.getWeekNotes(profileId),
+    store.getMoments(profileId),
+    store.getQuoteLibrary(profileId),
+  ]);
+  return { chapters, week_notes, moments, quote_library };
+};
+
+export const buildBackup = (
+  profile: UserProfile,
+  goals: Goal[],
+  reflections: Reflection[],
+  device: DeviceData
+): Backup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exported_at: new Date().toISOString(),
+  profile,
+  goals,
+  reflections,
+  ...device,
+});
+
+const csvCell = (value: string | number | null | undefined) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRows = (header: string[], rows: (string | number | null | undefined)[][]) =>
+  [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+// List fields hold several answers; they share one cell, separated by " | ".
+const joinList = (items: string[]) => items.filter((item) => item.trim()).join(' | ');
+
+export const reflectionsToCsv = (reflections: Reflection[]) =>
+  csvRows(
+    ['id', 'type', 'date', 'mood_score', 'productivity_score', 'gratitude_items', 'lessons_learned', 'goals_progress', 'challenges_faced', 'created_at'],
+    reflections.map((r) => [
+      r.id,
+      r.type,
+      r.date,
+      r.mood_score,
+      r.productivity_score,
+      joinList(r.gratitude_items),
+      joinList(r.lessons_learned),
+      joinList(r.goals_progress),
+      joinList(r.challenges_faced),
+      r.created_at,
+    ])
+  );
+
+export const goalsToCsv = (goals: Goal[]) =>
+  csvRows(
+    ['id', 'title', 'description', 'category', 'priority', 'status', 'target_date', 'created_at', 'updated_at'],
+    goals.map((g) => [g.id, g.title, g.description, g.category, g.priority, g.status, g.target_date, g.created_at, g.updated_at])
+  );
+
+// Entries carry ISO timestamps (or a bare date from older backups). Month groups and the
+// entry headings both go by the day it was on the device, not in UTC.
+const entryDay = (date: string) => parseLocalDate(date) ?? new Date(date);
+
+export const monthKey = (date: string) => toDateString(entryDay(date)).slice(0, 7);
+
+const monthTitle = (key: string) => {
+  const [year, month] = key.split('-').map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+};
+
+const markdownSection = (title: string, items: string[]) => {
+  const filled = items.filter((item) => item.trim());
+  if (filled.length === 0) return [];
+  return [`**${title}**`, '', ...filled.map((item) => `- ${item.trim()}`), ''];
+};
+
+export const toMarkdownJournal = (profile: UserProfile, goals: Goal[], reflections: Reflection[]) => {
+  const lines: string[] = [
+    `# ${profile.name}'s Journal`,
+    '',
+    `Exported ${new Date().toLocaleDateString()} from Momento Mori.`,
+    '',
+  ];
+
+  const byMonth = new Map<string, Reflection[]>();
+  [...reflections]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach((reflection) => {
+      const key = monthKey(reflection.date);
+      byMonth.set(key, [...(byMonth.get(key) ?? []), reflection]);
+    });
+
+  byMonth.forEach((entries, key) => {
+    lines.push(`## ${monthTitle(key)}`, '');
+    entries.forEach((r) => {
+      const type = r.type.charAt(0).toUpperCase() + r.type.slice(1);
+      lines.push(`### ${entryDay(r.date).toLocaleDateString()} · ${type}`, '');
+      lines.push(`Mood ${r.mood_score}/5 · Productivity ${r.productivity_score}/5`, '');
+      lines.push(
+        ...markdownSection('Grateful for', r.gratitude_items),
+        ...markdownSection(r.type === 'daily' ? 'Accomplished' : 'Reflections', r.lessons_learned),
+        ...markdownSection('Focus', r.goals_progress),
+        ...markdownSection('Challenges', r.challenges_faced)
+      );
+    });
+  });
+
+  if (goals.length > 0) {
+    lines.push('## Goals', '');
+    goals.forEach((g) => {
+      const box = g.status === 'completed' ? '[x]' : '[ ]';
+      const target = g.target_date ? ` (target ${g.target_date})` : '';
+      lines.push(`- ${box} **${g.title}**, ${g.category}, ${g.status}${target}`);
+      if (g.description) lines.push(`  ${g.description}`);
+    });
+    lines.push('');
+  }
+
+  return lines.join('\n');
+};
+
+const buildFiles = async (
+  format: ExportFormat,
+  profile: UserProfile,
+  goals: Goal[],
+  reflections: Reflection[]
+): Promise<ExportFile[]> => {
+  const stamp = new Date().toISOString().slice(0, 10);
+  switch (format) {
+    case 'json':
+      return [{
+        name: `momento-mori-backup-${stamp}.json`,
+        mimeType: 'application/json',
+        contents: JSON.stringify(buildBackup(profile, goals, reflections, await readDeviceData(profile.id)), null, 2),
+      }];
+    case 'csv':
+      return [
+        { name: `momento-mori-reflections-${stamp}.csv`, mimeType: 'text/csv', contents: reflectionsToCsv(reflections) },
+        { name: `momento-mori-goals-${stamp}.csv`, mimeType: 'text/csv', contents: goalsToCsv(goals) },
+      ];
+    case 'markdown':
+      return [{
+        name: `momento-mori-journal-${stamp}.md`,
+        mimeType: 'text/markdown',
+        contents: toMarkdownJournal(profile, goals, reflections),
+      }];
+  }
+};
+
+const shareFile = async (file: ExportFile) => {
+  if (Platform.OS === 'web' || !(await Sharing.isAvailableAsync())) {
+    // No file share sheet here; hand the text to the platform's plain share instead.
+    await Share.share({ title: file.name, message: file.contents });
+    return;
+  }
+
+  const uri = `${FileSystem.cacheDirectory}${file.name}`;
+  await FileSystem.writeAsStringAsync(uri, file.contents, { encoding: FileSystem.EncodingType.UTF8 });
+  await Sharing.shareAsync(uri, { mimeType: file.mimeType, dialogTitle: file.name });
+};
+
+// Exports everything we can reach: the server copy when online, the device cache otherwise.
+export const exportData = async (profile: UserProfile, format: ExportFormat) => {
+  const [goals, reflections] = await Promise.all([refreshGoals(profile.id), refreshReflections(profile.id)]);
+  const files = await buildFiles(format, profile, goals.map(stripSync), reflections.map(stripSync));
+
+  for (const file of files) {
+    await shareFile(file);
+  }
+};
@@ -0,0 +1,4 @@
+// Ids for records made on the device. The prefix says what a record is, the timestamp keeps
+// ids roughly in creation order and the random tail tells apart two made in one millisecond.
+export const generateId = (prefix: string) =>
+  `${prefix}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
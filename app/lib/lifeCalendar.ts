@@ -0,0 +1,87 @@
+import { addMonths, addYears, daysBetween, startOfDay } from './dates';
+
+export type CalendarZoom = 'weeks' | 'months' | 'years';
+export type CellState = 'lived' | 'current' | 'remaining';
+
+export interface CalendarCell {
+  // Position in the whole life at this zoom: week 0, month 0 or year 0 starts at birth.
+  index: number;
+  // Days since birth covered by the cell, end exclusive.
+  startDay: number;
+  endDay: number;
+  state: CellState;
+}
+
+export interface CalendarRow {
+  key: string;
+  // Age at the start of the row, and the calendar year that birthday falls in.
+  age: number;
+  year: number;
+  cells: CalendarCell[];
+}
+
+// Slots per row. A year of life holds 52 or 53 week starts, so week rows leave room for 53.
+export const ZOOM_COLUMNS: Record<CalendarZoom, number> = { weeks: 53, months: 12, years: 10 };
+
+export const ZOOM_UNIT: Record<CalendarZoom, string> = { weeks: 'week', months: 'month', years: 'year' };
+
+const cellState = (startDay: number, endDay: number, today: number): CellState =>
+  endDay <= today ? 'lived' : startDay <= today ? 'current' : 'remaining';
+
+// Rows for the whole expected lifespan, from birth to the day `lifeExpectancy` years later.
+// Week cells use the same week numbering as `calculateMortalityStats` (week N starts on
+// day 7N), so the current cell is always week `weeks_lived + 1`.
+export const buildLifeCalendar = (
+  birth: Date,
+  lifeExpectancy: number,
+  zoom: CalendarZoom,
+  now: Date = new Date()
+): CalendarRow[] => {
+  const today = daysBetween(birth, startOfDay(now));
+  const dayOfBirthday = (age: number) => daysBetween(birth, addYears(birth, age));
+  const row = (age: number, cells: CalendarCell[]): CalendarRow => ({
+    key: `${zoom}-${age}`,
+    age,
+    year: birth.getFullYear() + age,
+    cells,
+  });
+
+  if (zoom === 'years') {
+    const rows: CalendarRow[] = [];
+    for (let decade = 0; decade < lifeExpectancy; decade += ZOOM_COLUMNS.years) {
+      const cells: CalendarCell[] = [];
+      for (let age = decade; age < Math.min(decade + ZOOM_COLUMNS.years, lifeExpectancy); age++) {
+        const startDay = dayOfBirthday(age);
+        const endDay = dayOfBirthday(age + 1);
+        cells.push({ index: age, startDay, endDay, state: cellState(startDay, endDay, today) });
+      }
+      rows.push(row(decade, cells));
+    }
+    return rows;
+  }
+
+  if (zoom === 'months') {
+    return Array.from({ length: lifeExpectancy }, (_, age) =>
+      row(
+        age,
+        Array.from({ length: 12 }, (_, month) => {
+          const index = age * 12 + month;
+          const startDay = daysBetween(birth, addMonths(birth, index));
+          const endDay = daysBetween(birth, addMonths(birth, index + 1));
+          return { index, startDay, endDay, state: cellState(startDay, endDay, today) };
+        })
+      )
+    );
+  }
+
+  const totalWeeks = Math.floor(dayOfBirthday(lifeExpectancy) / 7);
+  return Array.from({ length: lifeExpectancy }, (_, age) => {
+    const first = Math.ceil(dayOfBirthday(age) / 7);
+    const last = Math.min(Math.ceil(dayOfBirthday(age + 1) / 7), totalWeeks);
+    const cells: CalendarCell[] = [];
+    for (let index = first; index < last; index++) {
+      cells.push({ index, startDay: index * 7, endDay: index * 7 + 7, state: cellState(index * 7, index * 7 + 7, today) });
+    }
+    return row(age, cells);
+  });
+};
@@ -0,0 +1,243 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import { router } from 'expo-router';
+import { deriveKey, KDF_ITERATIONS, open, randomHex, seal } from './crypto';
+import { ensureMigrated } from './migrations';
+import { useSession } from './session';
+import { lockVault, setVault, store, STORE_KEYS, Vault } from './store';
+import { flushQueue, serialize } from './sync';
+
+export type LockStatus = 'loading' | 'locked' | 'unlocked';
+
+interface LockSettings {
+  salt: string;
+  iterations: number;
+  // A known value sealed with the passcode key; opening it proves the passcode is right.
+  check: string;
+  relockAfterMs: number;
+}
+
+interface LockContextValue {
+  status: LockStatus;
+  hasPasscode: boolean;
+  relockAfterMs: number;
+  unlock: (passcode: string) => Promise<boolean>;
+  lock: () => void;
+  setPasscode: (passcode: string) => Promise<void>;
+  removePasscode: () => Promise<void>;
+  forgetPasscode: () => Promise<void>;
+  setRelockAfter: (ms: number) => Promise<void>;
+}
+
+export const PASSCODE_LENGTH = 6;
+
+export const RELOCK_OPTIONS = [
+  { label: 'Immediately', ms: 0 },
+  { label: 'After 1 minute', ms: 60 * 1000 },
+  { label: 'After 5 minutes', ms: 5 * 60 * 1000 },
+  { label: 'After 15 minutes', ms: 15 * 60 * 1000 },
+  { label: 'After 1 hour', ms: 60 * 60 * 1000 },
+];
+
+const DEFAULT_RELOCK_MS = 60 * 1000;
+const CHECK_VALUE = 'momento-mori';
+
+const LockContext = createContext<LockContextValue | null>(null);
+
+const getSettings = async (profileId: string) => {
+  // The passcode moved to a per-profile key in storage v3.
+  await ensureMigrated();
+  return store.getJSON<LockSettings | null>(STORE_KEYS.lock(profileId), null);
+};
+
+export const profileHasPasscode = async (profileId: string) => (await getSettings(profileId)) !== null;
+
+const keyFor = (passcode: string, settings: LockSettings) => deriveKey(passcode, settings.salt, settings.iterations);
+
+// Reads every journal key of the profile as it is stored now, then writes it back under
+// the new vault state. Held under the sync lock so a background flush can't interleave.
+const rewriteSensitive = (profileId: string, next: Vault) =>
+  serialize(async () => {
+    const keys = await store.getSensitiveKeys(profileId);
+    const values = await Promise.all(keys.map((key) => store.getJSON<unknown>(key, null)));
+    setVault(profileId, next);
+    for (let i = 0; i < keys.length; i++) {
+      if (values[i] !== null) {
+        await store.setJSON(keys[i], values[i]);
+      }
+    }
+  });
+
+// Each profile has its own optional passcode; this tracks the active one. Switching away
+// from a profile locks it again, so the next person has to know its passcode.
+export function LockProvider({ children }: { children: React.ReactNode }) {
+  const { status: sessionStatus, profileId } = useSession();
+  const [status, setStatus] = useState<LockStatus>('loading');
+  const [settings, setSettings] = useState<LockSettings | null>(null);
+  const backgroundedAt = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (sessionStatus === 'loading') return;
+    if (!profileId) {
+      setSettings(null);
+      setStatus('unlocked');
+      return;
+    }
+
+    let cancelled = false;
+    setStatus('loading');
+    getSettings(profileId)
+      .then((stored) => {
+        if (cancelled) return;
+        setSettings(stored);
+        setVault(profileId, stored ? { state: 'locked' } : { state: 'off' });
+        setStatus(stored ? 'locked' : 'unlocked');
+      })
+      .catch((error) => {
+        // Without the settings we can't tell whether data is sealed; staying locked is safe.
+        console.error('Error loading passcode settings:', error);
+        if (cancelled) return;
+        setVault(profileId, { state: 'locked' });
+        setStatus('locked');
+      });
+
+    return () => {
+      cancelled = true;
+      // Leaving this profile: drop its key along with the screens that showed its journal.
+      lockVault(profileId);
+    };
+  }, [sessionStatus, profileId]);
+
+  const unlock = useCallback(
+    async (passcode: string) => {
+      if (!profileId) return true;
+      const stored = await getSettings(profileId);
+      if (!stored) return true;
+
+      const key = await keyFor(passcode, stored);
+      try {
+        if (open(key, stored.check) !== CHECK_VALUE) return false;
+      } catch {
+        return false;
+      }
+
+      setVault(profileId, { state: 'unlocked', key });
+      setSettings(stored);
+      setStatus('unlocked');
+      serialize(() => store.sealPlainValues(profileId))
+        .catch((error) => console.error('Error sealing journal:', error))
+        .then(flushQueue);
+      return true;
+    },
+    [profileId]
+  );
+
+  const lock = useCallback(() => {
+    if (!profileId) return;
+    lockVault(profileId);
+    setStatus('locked');
+    // Drop every screen that may hold decrypted content and go back through the gate.
+    if (router.canDismiss()) router.dismissAll();
+    router.replace('/');
+  }, [profileId]);
+
+  const removePasscode = useCallback(async () => {
+    if (!profileId) return;
+    // Write everything back in the clear before dropping the settings, so a crash
+    // part-way still leaves the remaining sealed keys openable.
+    await rewriteSensitive(profileId, { state: 'off' });
+    await store.removeJSON(STORE_KEYS.lock(profileId));
+    setSettings(null);
+    setStatus('unlocked');
+  }, [profileId]);
+
+  const setPasscode = useCallback(
+    async (passcode: string) => {
+      if (!profileId) return;
+      // Changing goes through the clear first so data is never split across two keys.
+      if (settings) {
+        await removePasscode();
+      }
+
+      const next: LockSettings = {
+        salt: randomHex(16),
+        iterations: KDF_ITERATIONS,
+        check: '',
+        relockAfterMs: settings?.relockAfterMs ?? DEFAULT_RELOCK_MS,
+      };
+      const key = await keyFor(passcode, next);
+      next.check = seal(key, CHECK_VALUE);
+
+      await store.setJSON(STORE_KEYS.lock(profileId), next);
+      await rewriteSensitive(profileId, { state: 'unlocked', key });
+      setSettings(next);
+      setStatus('unlocked');
+    },
+    [profileId, settings, removePasscode]
+  );
+
+  // The way out of a forgotten passcode: sealed copies can't be recovered, so they're
+  // dropped and re-fetched from the server. Writes that never synced are lost.
+  const forgetPasscode = useCallback(async () => {
+    if (!profileId) return;
+    await serialize(async () => {
+      const keys = await store.getSensitiveKeys(profileId);
+      await store.removeJSON(...keys, STORE_KEYS.lock(profileId));
+      setVault(profileId, { state: 'off' });
+    });
+    setSettings(null);
+    setStatus('unlocked');
+  }, [profileId]);
+
+  const setRelockAfter = useCallback(
+    async (ms: number) => {
+      if (!profileId || !settings) return;
+      const next = { ...settings, relockAfterMs: ms };
+      await store.setJSON(STORE_KEYS.lock(profileId), next);
+      setSettings(next);
+    },
+    [profileId, settings]
+  );
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (next) => {
+      if (next === 'background') {
+        backgroundedAt.current = Date.now();
+        return;
+      }
+      if (next !== 'active' || backgroundedAt.current === null) return;
+
+      const elapsed = Date.now() - backgroundedAt.current;
+      backgroundedAt.current = null;
+      if (settings && status === 'unlocked' && elapsed >= settings.relockAfterMs) {
+        lock();
+      }
+    });
+    return () => subscription.remove();
+  }, [settings, status, lock]);
+
+  const value = useMemo<LockContextValue>(
+    () => ({
+      status,
+      hasPasscode: settings !== null,
+      relockAfterMs: settings?.relockAfterMs ?? DEFAULT_RELOCK_MS,
+      unlock,
+      lock,
+      setPasscode,
+      removePasscode,
+      forgetPasscode,
+      setRelockAfter,
+    }),
+    [status, settings, unlock, lock, setPasscode, removePasscode, forgetPasscode, setRelockAfter]
+  );
+
+  return <LockContext.Provider value={value}>{children}</LockContext.Provider>;
+}
+
+export const useLock = (): LockContextValue => {
+  const context = useContext(LockContext);
+  if (!context) {
+    throw new Error('useLock must be used within a LockProvider');
+  }
+  return context;
+};
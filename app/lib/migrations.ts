@@ -0,0 +1,133 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Goal } from './models';
+import { LEGACY_KEYS, Local, store, STORE_KEYS } from './store';
+
+// Single-profile keys as they were up to storage v2.
+const V2_KEYS = {
+  profile: 'store:profile',
+  queue: 'store:syncQueue',
+  lock: 'store:lock',
+};
+
+// The last quote fetched from the server, kept as an offline fallback up to storage v3.
+const V3_QUOTE_KEY = 'store:quote';
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: () => Promise<void>;
+}
+
+// Append-only: each entry upgrades local data from `version - 1` to `version`.
+// Migrations must not delete anything the previous schema still reads until the
+// new copy is written, so a failure part-way leaves the old data usable.
+// They run before the passcode is entered, so they cannot read sealed journal keys.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Move onboarding keys into the versioned session record',
+    migrate: async () => {
+      const profileId = await AsyncStorage.getItem(LEGACY_KEYS.userProfileId);
+      const onboardingCompleted = await AsyncStorage.getItem(LEGACY_KEYS.onboardingCompleted);
+      if (profileId) {
+        await store.setSession({ profileId, onboardingCompleted: onboardingCompleted === 'true' });
+      }
+      await AsyncStorage.multiRemove([LEGACY_KEYS.userProfileId, LEGACY_KEYS.onboardingCompleted]);
+    },
+  },
+  {
+    version: 2,
+    description: 'Store missing goal target dates as null instead of empty strings',
+    migrate: async () => {
+      const keys = (await AsyncStorage.getAllKeys()).filter((key) => key.startsWith(STORE_KEYS.goals('')));
+      for (const key of keys) {
+        const goals = await store.getJSON<Local<Goal>[]>(key, []);
+        await store.setJSON(
+          key,
+          goals.map((goal) => ({ ...goal, target_date: goal.target_date || null }))
+        );
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'Key the profile cache, sync queue and passcode by profile',
+    migrate: async () => {
+      // Until now there was one profile, so everything belonged to it. Values are copied
+      // byte for byte: a sealed queue stays sealed under the same profile's passcode.
+      const session = await store.getSession();
+      const profileId = session?.activeProfileId;
+      if (session && profileId) {
+        const moves: [string, string][] = [
+          [V2_KEYS.profile, STORE_KEYS.profile(profileId)],
+          [V2_KEYS.queue, STORE_KEYS.queue(profileId)],
+          [V2_KEYS.lock, STORE_KEYS.lock(profileId)],
+        ];
+        for (const [from, to] of moves) {
+          const raw = await AsyncStorage.getItem(from);
+          if (raw !== null) {
+            await AsyncStorage.setItem(to, raw);
+          }
+        }
+        await store.setSession(session);
+      }
+      await AsyncStorage.multiRemove(Object.values(V2_KEYS));
+    },
+  },
+  {
+    version: 4,
+    description: 'Drop the cached server quote now that quotes are bundled',
+    migrate: async () => {
+      await AsyncStorage.removeItem(V3_QUOTE_KEY);
+    },
+  },
+];
+
+export const CURRENT_STORAGE_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export interface MigrationOutcome {
+  version: number;
+  error?: string;
+}
+
+const getStoredVersion = async () => {
+  const raw = await AsyncStorage.getItem(STORE_KEYS.version);
+  const version = raw ? parseInt(raw, 10) : 0;
+  return Number.isNaN(version) ? 0 : version;
+};
+
+const runMigrations = async (): Promise<MigrationOutcome> => {
+  let version = await getStoredVersion();
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= version) continue;
+
+    try {
+      await migration.migrate();
+      // Record progress after every step so a later failure doesn't re-run earlier ones.
+      await AsyncStorage.setItem(STORE_KEYS.version, String(migration.version));
+      version = migration.version;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Storage migration to v${migration.version} failed (${migration.description}):`, error);
+      // Stay on the last good version; readers fall back to the older layout and
+      // the failed step is retried on the next launch.
+      return { version, error: message };
+    }
+  }
+
+  return { version };
+};
+
+let pending: Promise<MigrationOutcome> | null = null;
+
+// Runs once per launch; everything that reads local data awaits the same promise.
+export const ensureMigrated = (): Promise<MigrationOutcome> => {
+  if (!pending) {
+    pending = runMigrations().catch((error) => {
+      console.error('Error running storage migrations:', error);
+      return { version: 0, error: String(error) };
+    });
+  }
+  return pending;
+};
@@ -0,0 +1,121 @@
+import { addDays, addYears, daysBetween, parseLocalDate, startOfDay, toDateString } from './dates';
+
+// Thresholds worth marking on the way through a life, worked out from the same day and week
+// counts as `calculateMortalityStats`, so a milestone falls on the day the stats cross it.
+
+export type MilestoneKind = 'days_lived' | 'weeks_remaining' | 'life_percentage' | 'birthday' | 'days_remaining';
+
+export interface Milestone {
+  // Stable across recalculation, e.g. 'days_lived-10000'.
+  id: string;
+  kind: MilestoneKind;
+  title: string;
+  // The day the threshold is crossed, as 'YYYY-MM-DD'.
+  date: string;
+}
+
+export interface MilestoneTimeline {
+  // Reached within the last week (a birthday is celebrated for its whole week), newest first.
+  current: Milestone[];
+  // Still ahead, soonest first.
+  upcoming: Milestone[];
+  // Reached before the current ones, newest first.
+  passed: Milestone[];
+}
+
+// A milestone is celebrated from the day it falls on for this many days.
+const CELEBRATION_DAYS = 7;
+
+const multiplesBelow = (step: number, limit: number) =>
+  Array.from({ length: Math.max(0, Math.ceil(limit / step) - 1) }, (_, i) => (i + 1) * step);
+
+const roundDayCounts = (limit: number) => [1000, ...multiplesBelow(5000, limit)].filter((count) => count < limit);
+
+const ordinal = (n: number) => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : (['th', 'st', 'nd', 'rd'][n % 10] ?? 'th');
+  return `${n}${suffix}`;
+};
+
+export const findMilestones = (birthDateString: string, lifeExpectancy: number): Milestone[] => {
+  const birth = parseLocalDate(birthDateString);
+  if (!birth) {
+    throw new Error(`Invalid birth date: ${birthDateString}`);
+  }
+
+  const totalDays = daysBetween(birth, addYears(birth, lifeExpectancy));
+  const totalWeeks = Math.floor(totalDays / 7);
+  const onDay = (day: number) => toDateString(addDays(birth, day));
+  const milestones: Milestone[] = [];
+
+  roundDayCounts(totalDays).forEach((count) =>
+    milestones.push({
+      id: `days_lived-${count}`,
+      kind: 'days_lived',
+      title: `${count.toLocaleString()} days lived`,
+      date: onDay(count),
+    })
+  );
+
+  // Weeks remaining drops by one each time a whole week is lived.
+  [100, 500, ...multiplesBelow(1000, totalWeeks)]
+    .filter((count) => count < totalWeeks)
+    .forEach((count) =>
+      milestones.push({
+        id: `weeks_remaining-${count}`,
+        kind: 'weeks_remaining',
+        title: `${count.toLocaleString()} weeks to go`,
+        date: onDay((totalWeeks - count) * 7),
+      })
+    );
+
+  for (let percent = 10; percent < 100; percent += 10) {
+    milestones.push({
+      id: `life_percentage-${percent}`,
+      kind: 'life_percentage',
+      title: `${percent}% of your expected life`,
+      date: onDay(Math.ceil((totalDays * percent) / 100)),
+    });
+  }
+
+  for (let age = 1; age < lifeExpectancy; age++) {
+    milestones.push({
+      id: `birthday-${age}`,
+      kind: 'birthday',
+      title: `${ordinal(age)} birthday`,
+      date: toDateString(addYears(birth, age)),
+    });
+  }
+
+  [100, ...roundDayCounts(totalDays)].forEach((count) =>
+    milestones.push({
+      id: `days_remaining-${count}`,
+      kind: 'days_remaining',
+      title: `${count.toLocaleString()} days to go`,
+      date: onDay(totalDays - count),
+    })
+  );
+
+  return milestones.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const milestoneTimeline = (
+  birthDateString: string,
+  lifeExpectancy: number,
+  now: Date = new Date()
+): MilestoneTimeline => {
+  const today = startOfDay(now);
+  const timeline: MilestoneTimeline = { current: [], upcoming: [], passed: [] };
+
+  findMilestones(birthDateString, lifeExpectancy).forEach((milestone) => {
+    const daysAgo = daysBetween(parseLocalDate(milestone.date)!, today);
+    if (daysAgo < 0) {
+      timeline.upcoming.push(milestone);
+    } else if (daysAgo < CELEBRATION_DAYS) {
+      timeline.current.unshift(milestone);
+    } else {
+      timeline.passed.unshift(milestone);
+    }
+  });
+
+  return timeline;
+};
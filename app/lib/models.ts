@@ -0,0 +1,318 @@
+// Domain model shared by every screen, the API client, the local store and the
+// mock server, plus the runtime schemas that check backend payloads against it.
+
+export interface UserProfile {
+  id: string;
+  birth_date: string;
+  life_expectancy: number;
+  name: string;
+  country?: string;
+}
+
+export interface MortalityStats {
+  days_lived: number;
+  days_remaining: number;
+  weeks_lived: number;
+  weeks_remaining: number;
+  life_percentage: number;
+  current_age: number;
+  expected_death_date: string;
+  year_percentage?: number;
+  month_percentage?: number;
+}
+
+export interface Quote {
+  id: string;
+  text: string;
+  author: string;
+  category?: string;
+}
+
+export const GOAL_CATEGORIES = ['career', 'health', 'personal', 'financial', 'relationship'] as const;
+export const GOAL_PRIORITIES = ['low', 'medium', 'high'] as const;
+export const GOAL_STATUSES = ['active', 'completed', 'paused'] as const;
+export const REFLECTION_TYPES = ['daily', 'weekly', 'monthly'] as const;
+
+export interface Goal {
+  id: string;
+  title: string;
+  description: string;
+  category: (typeof GOAL_CATEGORIES)[number];
+  priority: (typeof GOAL_PRIORITIES)[number];
+  status: (typeof GOAL_STATUSES)[number];
+  target_date: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Reflection {
+  id: string;
+  type: (typeof REFLECTION_TYPES)[number];
+  date: string;
+  mood_score: number;
+  productivity_score: number;
+  gratitude_items: string[];
+  lessons_learned: string[];
+  goals_progress: string[];
+  challenges_faced: string[];
+  created_at: string;
+}
+
+// A named era of someone's life, drawn over the life calendar. Kept on the device only.
+export interface LifeChapter {
+  id: string;
+  title: string;
+  start_date: string;
+  // Null while the chapter is still going on.
+  end_date: string | null;
+  color: string;
+}
+
+export interface QuoteHistoryEntry {
+  quote_id: string;
+  // The 'YYYY-MM-DD' day it was shown on.
+  date: string;
+}
+
+// Someone's own take on the quote rotation. Kept on the device only.
+export interface QuoteLibrary {
+  favorites: string[];
+  // Quotes they wrote themselves; always part of the rotation.
+  mantras: Quote[];
+  // Bundled categories in the rotation.
+  categories: string[];
+  // Newest first.
+  history: QuoteHistoryEntry[];
+}
+
+export const MOMENT_PERIODS = ['week', 'month', 'year'] as const;
+
+// A way of counting what's left ("summers", "books at 12 a year"). Kept on the device only.
+export interface MomentFraming {
+  id: string;
+  title: string;
+  // Plural noun the count is shown with, e.g. "visits".
+  unit: string;
+  // How many happen per period.
+  rate: number;
+  period: (typeof MOMENT_PERIODS)[number];
+  // Only count this many more years (parents' remaining years), or the whole lifespan when null.
+  years: number | null;
+  pinned: boolean;
+}
+
+// A note written about one week of life, often after the fact. Kept on the device only.
+export interface WeekNote {
+  // First day of the week, counted from the birth date like the life calendar.
+  week_start: string;
+  text: string;
+  updated_at: string;
+}
+
+// What the server removed when a profile was deleted.
+export interface DeletionSummary {
+  goals_deleted: number;
+  reflections_deleted: number;
+}
+
+export interface CreateProfileInput {
+  birth_date: string;
+  life_expectancy: number;
+  name: string;
+  country?: string;
+}
+
+export type UpdateProfileInput = Partial<CreateProfileInput>;
+
+export interface CreateGoalInput {
+  user_id: string;
+  title: string;
+  description: string;
+  category: Goal['category'];
+  priority: Goal['priority'];
+  target_date: string | null;
+  // Only set when restoring a backup, so history keeps its original state and dates.
+  status?: Goal['status'];
+  created_at?: string;
+}
+
+export interface CreateReflectionInput {
+  user_id: string;
+  type: Reflection['type'];
+  mood_score: number;
+  productivity_score: number;
+  gratitude_items: string[];
+  lessons_learned: string[];
+  goals_progress: string[];
+  challenges_faced: string[];
+  // Only set when restoring a backup.
+  date?: string;
+  created_at?: string;
+}
+
+export class ValidationError extends Error {
+  constructor(public path: string, expected: string) {
+    super(`${path || 'response'}: expected ${expected}`);
+    this.name = 'ValidationError';
+  }
+}
+
+// A schema checks an unknown value and returns it typed, or throws ValidationError.
+export type Schema<T> = (value: unknown, path?: string) => T;
+
+const describe = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+export const string: Schema<string> = (value, path = '') => {
+  if (typeof value !== 'string') throw new ValidationError(path, `string, got ${describe(value)}`);
+  return value;
+};
+
+export const number: Schema<number> = (value, path = '') => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new ValidationError(path, `number, got ${describe(value)}`);
+  }
+  return value;
+};
+
+export const boolean: Schema<boolean> = (value, path = '') => {
+  if (typeof value !== 'boolean') throw new ValidationError(path, `boolean, got ${describe(value)}`);
+  return value;
+};
+
+// Calendar dates travel as 'YYYY-MM-DD' strings.
+export const localDate: Schema<string> = (value, path = '') => {
+  const text = string(value, path);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(text)) throw new ValidationError(path, `YYYY-MM-DD date, got "${text}"`);
+  return text;
+};
+
+export const oneOf =
+  <T extends string>(options: readonly T[]): Schema<T> =>
+  (value, path = '') => {
+    if (!options.includes(value as T)) throw new ValidationError(path, `one of ${options.join(', ')}`);
+    return value as T;
+  };
+
+export const optional =
+  <T>(schema: Schema<T>): Schema<T | undefined> =>
+  (value, path) =>
+    value === undefined || value === null ? undefined : schema(value, path);
+
+export const nullable =
+  <T>(schema: Schema<T>): Schema<T | null> =>
+  (value, path) =>
+    value === undefined || value === null ? null : schema(value, path);
+
+export const array =
+  <T>(schema: Schema<T>): Schema<T[]> =>
+  (value, path = '') => {
+    if (!Array.isArray(value)) throw new ValidationError(path, `array, got ${describe(value)}`);
+    return value.map((item, index) => schema(item, `${path}[${index}]`));
+  };
+
+export const object =
+  <T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> =>
+  (value, path = '') => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new ValidationError(path, `object, got ${describe(value)}`);
+    }
+    const record = value as Record<string, unknown>;
+    const result = { ...record } as Record<string, unknown>;
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const checked = shape[key](record[key], path ? `${path}.${key}` : key);
+      if (checked === undefined) {
+        delete result[key];
+      } else {
+        result[key] = checked;
+      }
+    }
+    return result as T;
+  };
+
+export const UserProfileSchema = object<UserProfile>({
+  id: string,
+  birth_date: localDate,
+  life_expectancy: number,
+  name: string,
+  country: optional(string),
+});
+
+export const MortalityStatsSchema = object<MortalityStats>({
+  days_lived: number,
+  days_remaining: number,
+  weeks_lived: number,
+  weeks_remaining: number,
+  life_percentage: number,
+  current_age: number,
+  expected_death_date: string,
+  year_percentage: optional(number),
+  month_percentage: optional(number),
+});
+
+export const QuoteSchema = object<Quote>({
+  id: string,
+  text: string,
+  author: string,
+  category: optional(string),
+});
+
+export const GoalSchema = object<Goal>({
+  id: string,
+  title: string,
+  description: (value, path) => optional(string)(value, path) ?? '',
+  category: oneOf(GOAL_CATEGORIES),
+  priority: oneOf(GOAL_PRIORITIES),
+  status: oneOf(GOAL_STATUSES),
+  target_date: nullable(string),
+  created_at: string,
+  updated_at: string,
+});
+
+export const ReflectionSchema = object<Reflection>({
+  id: string,
+  type: oneOf(REFLECTION_TYPES),
+  date: string,
+  mood_score: number,
+  productivity_score: number,
+  gratitude_items: array(string),
+  lessons_learned: array(string),
+  goals_progress: array(string),
+  challenges_faced: array(string),
+  created_at: string,
+});
+
+export const LifeChapterSchema = object<LifeChapter>({
+  id: string,
+  title: string,
+  start_date: localDate,
+  end_date: nullable(localDate),
+  color: string,
+});
+
+export const WeekNoteSchema = object<WeekNote>({
+  week_start: localDate,
+  text: string,
+  updated_at: string,
+});
+
+export const MomentFramingSchema = object<MomentFraming>({
+  id: string,
+  title: string,
+  unit: string,
+  rate: number,
+  period: oneOf(MOMENT_PERIODS),
+  years: nullable(number),
+  pinned: boolean,
+});
+
+export const QuoteLibrarySchema = object<QuoteLibrary>({
+  favorites: array(string),
+  mantras: array(QuoteSchema),
+  categories: array(string),
+  history: array(object<QuoteHistoryEntry>({ quote_id: string, date: localDate })),
+});
+
+export const DeletionSummarySchema = object<DeletionSummary>({
+  goals_deleted: number,
+  reflections_deleted: number,
+});
@@ -0,0 +1,68 @@
+import { generateId } from './ids';
+import type { MomentFraming, MortalityStats } from './models';
+import { store } from './store';
+
+export type FramingInput = Omit<MomentFraming, 'id' | 'pinned'>;
+
+// Starting points offered when adding a framing; every rate can be changed afterwards.
+export const MOMENT_PRESETS: (FramingInput & { key: string })[] = [
+  { key: 'summers', title: 'Summers', unit: 'summers', rate: 1, period: 'year', years: null },
+  { key: 'weekends', title: 'Weekends', unit: 'weekends', rate: 1, period: 'week', years: null },
+  { key: 'books', title: 'Books at your reading pace', unit: 'books', rate: 12, period: 'year', years: null },
+  { key: 'parents', title: 'Visits with your parents', unit: 'visits', rate: 4, period: 'year', years: 20 },
+  { key: 'holidays', title: 'Holidays with family', unit: 'holidays', rate: 1, period: 'year', years: null },
+];
+
+// What a profile sees before choosing its own.
+const DEFAULT_PRESETS = ['summers', 'weekends', 'books'];
+
+const PERIODS_PER_YEAR: Record<MomentFraming['period'], number> = { week: 365.2425 / 7, month: 12, year: 1 };
+
+export const newFraming = (input: FramingInput, pinned = true, id = generateId('moment_')): MomentFraming => ({
+  ...input,
+  id,
+  pinned,
+});
+
+export const framingFromPreset = (key: string, pinned = true, id?: string): MomentFraming => {
+  const { key: _key, ...preset } = MOMENT_PRESETS.find((candidate) => candidate.key === key)!;
+  return newFraming(preset, pinned, id);
+};
+
+export const validateFraming = (input: FramingInput): string | null => {
+  if (!input.title.trim()) return 'Please give this a name.';
+  if (!input.unit.trim()) return 'Please say what is being counted, e.g. "visits".';
+  if (!Number.isFinite(input.rate) || input.rate <= 0) return 'How often must be a number above zero.';
+  if (input.years !== null && (!Number.isFinite(input.years) || input.years <= 0)) {
+    return 'The number of years must be above zero, or left empty for the rest of your life.';
+  }
+  return null;
+};
+
+// How many are left: the rate applied to the remaining weeks (for weekly framings, so the
+// count matches `weeks_remaining` exactly) or remaining days, capped at `years` if set.
+export const countMoments = (
+  framing: MomentFraming,
+  stats: Pick<MortalityStats, 'days_remaining' | 'weeks_remaining'>
+): number => {
+  const perYear = PERIODS_PER_YEAR[framing.period];
+  let periods = framing.period === 'week' ? stats.weeks_remaining : (stats.days_remaining / 365.2425) * perYear;
+  if (framing.years !== null) periods = Math.min(periods, framing.years * perYear);
+  return Math.max(0, Math.floor(periods * framing.rate));
+};
+
+export const describeRate = (framing: MomentFraming): string => {
+  const rate = `${framing.rate.toLocaleString()} a ${framing.period}`;
+  return framing.years === null ? rate : `${rate} for ${framing.years} more year${framing.years === 1 ? '' : 's'}`;
+};
+
+export const getFramings = async (profileId: string): Promise<MomentFraming[]> =>
+  (await store.getMoments(profileId)) ?? DEFAULT_PRESETS.map((key) => framingFromPreset(key, true, `moment_${key}`));
+
+export const saveFramings = (profileId: string, framings: MomentFraming[]) => store.setMoments(profileId, framings);
+
+// Pinned framings are the ones shown on the home tab; with none pinned, the first few are.
+export const homeFramings = (framings: MomentFraming[], fallback = 3) => {
+  const pinned = framings.filter((framing) => framing.pinned);
+  return pinned.length > 0 ? pinned : framings.slice(0, fallback);
+};
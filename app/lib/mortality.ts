@@ -0,0 +1,60 @@
+import type { MortalityStats } from './models';
+import {
+  addDays,
+  addYears,
+  ageOn,
+  daysBetween,
+  daysInMonth,
+  isLeapYear,
+  parseLocalDate,
+  startOfDay,
+} from './dates';
+
+export const calculateMortalityStats = (
+  birthDateString: string,
+  lifeExpectancy: number,
+  now: Date = new Date()
+): MortalityStats => {
+  const birthDate = parseLocalDate(birthDateString);
+  if (!birthDate) {
+    throw new Error(`Invalid birth date: ${birthDateString}`);
+  }
+
+  const today = startOfDay(now);
+  const deathDate = addYears(birthDate, lifeExpectancy);
+
+  const totalDays = daysBetween(birthDate, deathDate);
+  const daysLived = Math.min(Math.max(0, daysBetween(birthDate, today)), totalDays);
+  const daysRemaining = totalDays - daysLived;
+
+  // Week N of life starts on day 7 * N after birth, so weeks always begin on the
+  // weekday the user was born on, and the current week is `weeks_lived + 1`.
+  const totalWeeks = Math.floor(totalDays / 7);
+  const weeksLived = Math.min(Math.floor(daysLived / 7), totalWeeks);
+  const weeksRemaining = totalWeeks - weeksLived;
+
+  // Measured against the day's real length, which is 23 or 25 hours when the clocks change.
+  const dayFraction = (now.getTime() - today.getTime()) / (addDays(today, 1).getTime() - today.getTime());
+  const livedPrecise = daysRemaining > 0 ? daysLived + dayFraction : totalDays;
+  const lifePercentage = totalDays > 0 ? (livedPrecise / totalDays) * 100 : 100;
+
+  const year = now.getFullYear();
+  const daysInYear = isLeapYear(year) ? 366 : 365;
+  const dayOfYear = daysBetween(new Date(year, 0, 1), today);
+  const yearPercentage = ((dayOfYear + dayFraction) / daysInYear) * 100;
+
+  const monthLength = daysInMonth(year, now.getMonth());
+  const monthPercentage = ((now.getDate() - 1 + dayFraction) / monthLength) * 100;
+
+  return {
+    days_lived: daysLived,
+    days_remaining: daysRemaining,
+    weeks_lived: weeksLived,
+    weeks_remaining: weeksRemaining,
+    life_percentage: Math.min(lifePercentage, 100),
+    current_age: ageOn(birthDate, today),
+    expected_death_date: deathDate.toISOString(),
+    year_percentage: yearPercentage,
+    month_percentage: monthPercentage,
+  };
+};
@@ -0,0 +1,70 @@
+import { estimateLifeExpectancy, LifestyleAnswers, Sex } from './actuarial';
+import type { Goal } from './models';
+import { isValidLifeExpectancy } from './profile';
+import { STORE_KEYS, store } from './store';
+
+// Everything entered during setup, saved after every change so a half-finished
+// onboarding survives the app being killed. Only ever one draft per device: it is
+// not tied to a profile because the profile doesn't exist yet.
+export interface OnboardingDraft {
+  // The step to reopen on; null means the first.
+  stepId: string | null;
+  // Optional steps passed over with Skip, whose answers are ignored on completion.
+  skipped: string[];
+  name: string;
+  // As reported by DateInput: '' when empty, null while the text isn't a valid date.
+  birthDate: string | null;
+  country: string;
+  sex: Sex;
+  lifestyle: LifestyleAnswers;
+  useCustomExpectancy: boolean;
+  customLifeExpectancy: string;
+  firstGoal: {
+    title: string;
+    category: Goal['category'];
+    targetDate: string | null;
+  };
+}
+
+export const EMPTY_DRAFT: OnboardingDraft = {
+  stepId: null,
+  skipped: [],
+  name: '',
+  birthDate: '',
+  country: '',
+  sex: 'unspecified',
+  lifestyle: {},
+  useCustomExpectancy: false,
+  customLifeExpectancy: '',
+  firstGoal: { title: '', category: 'personal', targetDate: '' },
+};
+
+// Drafts saved by an older build lack the fields of steps added since; defaults fill them.
+// Half-typed dates aren't saved as text, so they come back as empty fields.
+export const loadDraft = async (): Promise<OnboardingDraft> => {
+  const saved = await store.getJSON<Partial<OnboardingDraft> | null>(STORE_KEYS.onboardingDraft, null);
+  const draft = { ...EMPTY_DRAFT, ...saved };
+  return {
+    ...draft,
+    birthDate: draft.birthDate ?? '',
+    firstGoal: { ...EMPTY_DRAFT.firstGoal, ...draft.firstGoal, targetDate: draft.firstGoal.targetDate ?? '' },
+  };
+};
+
+export const saveDraft = (draft: OnboardingDraft) => store.setJSON(STORE_KEYS.onboardingDraft, draft);
+
+export const clearDraft = () => store.removeJSON(STORE_KEYS.onboardingDraft);
+
+export const estimateForDraft = (draft: OnboardingDraft) =>
+  estimateLifeExpectancy({
+    birthDate: draft.birthDate ?? '',
+    country: draft.country,
+    sex: draft.sex,
+    lifestyle: draft.lifestyle,
+  });
+
+// NaN when the custom value isn't a number, which `isValidLifeExpectancy` rejects.
+export const resolveLifeExpectancy = (draft: OnboardingDraft): number =>
+  draft.useCustomExpectancy ? Number(draft.customLifeExpectancy) : estimateForDraft(draft).expectedAge;
+
+export const hasValidLifeExpectancy = (draft: OnboardingDraft) => isValidLifeExpectancy(resolveLifeExpectancy(draft));
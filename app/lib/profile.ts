@@ -0,0 +1,32 @@
+import type { CreateProfileInput } from './models';
+import { parseLocalDate, startOfDay } from './dates';
+import { isCountryCode } from './countries';
+
+export const MIN_LIFE_EXPECTANCY = 20;
+export const MAX_LIFE_EXPECTANCY = 120;
+
+export const isValidBirthDate = (dateString: string, today: Date = new Date()): boolean => {
+  const date = parseLocalDate(dateString);
+  return date !== null && date <= startOfDay(today);
+};
+
+export const isValidLifeExpectancy = (years: number): boolean =>
+  Number.isInteger(years) && years >= MIN_LIFE_EXPECTANCY && years <= MAX_LIFE_EXPECTANCY;
+
+// Shared by onboarding, settings and the mock server so all three accept the same
+// profiles. Checks only the fields present; returns the first problem as a message.
+export const validateProfileInput = (input: Partial<CreateProfileInput>): string | null => {
+  if (input.birth_date !== undefined && !isValidBirthDate(input.birth_date)) {
+    return 'Birth date must be a real date in YYYY-MM-DD format and not in the future.';
+  }
+  if (input.life_expectancy !== undefined && !isValidLifeExpectancy(input.life_expectancy)) {
+    return `Life expectancy must be between ${MIN_LIFE_EXPECTANCY} and ${MAX_LIFE_EXPECTANCY} years.`;
+  }
+  if (input.name !== undefined && !input.name.trim()) {
+    return 'Name cannot be empty.';
+  }
+  if (input.country !== undefined && input.country !== '' && !isCountryCode(input.country)) {
+    return 'Country must be an ISO 3166 country code.';
+  }
+  return null;
+};
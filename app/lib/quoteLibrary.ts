@@ -0,0 +1,100 @@
+import { toDateString } from './dates';
+import { generateId } from './ids';
+import type { Quote, QuoteLibrary } from './models';
+import { MANTRA_CATEGORY, nextQuote, QUOTE_CATEGORIES, quoteOfTheDay, QUOTES } from './quotes';
+import { store } from './store';
+
+// Enough for about a year of daily quotes plus the odd "next".
+export const HISTORY_LIMIT = 500;
+
+const EMPTY_LIBRARY: QuoteLibrary = {
+  favorites: [],
+  mantras: [],
+  categories: QUOTE_CATEGORIES.map((category) => category.value),
+  history: [],
+};
+
+export const getQuoteLibrary = async (profileId: string): Promise<QuoteLibrary> => ({
+  ...EMPTY_LIBRARY,
+  ...(await store.getQuoteLibrary(profileId)),
+});
+
+const updateLibrary = async (profileId: string, change: (library: QuoteLibrary) => QuoteLibrary) => {
+  const library = change(await getQuoteLibrary(profileId));
+  await store.setQuoteLibrary(profileId, library);
+  return library;
+};
+
+// Bundled quotes from the chosen categories plus the profile's own mantras. With every
+// category switched off and no mantras, the whole corpus is used rather than nothing.
+export const rotationFor = (library: QuoteLibrary): Quote[] => {
+  const rotation = [...QUOTES.filter((quote) => library.categories.includes(quote.category!)), ...library.mantras];
+  return rotation.length > 0 ? rotation : QUOTES;
+};
+
+export const findQuote = (library: QuoteLibrary, id: string): Quote | undefined =>
+  QUOTES.find((quote) => quote.id === id) ?? library.mantras.find((quote) => quote.id === id);
+
+const withShown = (library: QuoteLibrary, quote: Quote, date: string): QuoteLibrary => ({
+  ...library,
+  history: [{ quote_id: quote.id, date }, ...library.history].slice(0, HISTORY_LIMIT),
+});
+
+export interface ShownQuote {
+  quote: Quote;
+  library: QuoteLibrary;
+}
+
+// The quote on screen today: the day's own quote, or the last one asked for with "next".
+export const getTodaysQuote = async (profileId: string | null, now: Date = new Date()): Promise<ShownQuote> => {
+  const today = toDateString(now);
+  if (!profileId) {
+    return { quote: quoteOfTheDay(QUOTES, today)!, library: EMPTY_LIBRARY };
+  }
+
+  const library = await getQuoteLibrary(profileId);
+  const latest = library.history[0];
+  const shown = latest?.date === today ? findQuote(library, latest.quote_id) : undefined;
+  if (shown) return { quote: shown, library };
+
+  const quote = quoteOfTheDay(rotationFor(library), today)!;
+  const next = withShown(library, quote, today);
+  await store.setQuoteLibrary(profileId, next);
+  return { quote, library: next };
+};
+
+export const showNextQuote = async (profileId: string, now: Date = new Date()): Promise<ShownQuote> => {
+  const today = toDateString(now);
+  const library = await getQuoteLibrary(profileId);
+  const shownToday = library.history.filter((entry) => entry.date === today).map((entry) => entry.quote_id);
+  const quote = nextQuote(rotationFor(library), today, shownToday, shownToday[0]);
+  if (!quote) return getTodaysQuote(profileId, now);
+
+  const next = withShown(library, quote, today);
+  await store.setQuoteLibrary(profileId, next);
+  return { quote, library: next };
+};
+
+export const toggleFavorite = (profileId: string, quoteId: string) =>
+  updateLibrary(profileId, (library) => ({
+    ...library,
+    favorites: library.favorites.includes(quoteId)
+      ? library.favorites.filter((id) => id !== quoteId)
+      : [quoteId, ...library.favorites],
+  }));
+
+export const addMantra = (profileId: string, text: string, author: string) =>
+  updateLibrary(profileId, (library) => ({
+    ...library,
+    mantras: [...library.mantras, { id: generateId('mantra_'), text: text.trim(), author, category: MANTRA_CATEGORY }],
+  }));
+
+export const removeMantra = (profileId: string, quoteId: string) =>
+  updateLibrary(profileId, (library) => ({
+    ...library,
+    mantras: library.mantras.filter((quote) => quote.id !== quoteId),
+    favorites: library.favorites.filter((id) => id !== quoteId),
+  }));
+
+export const setQuoteCategories = (profileId: string, categories: string[]) =>
+  updateLibrary(profileId, (library) => ({ ...library, categories }));
@@ -0,0 +1,110 @@
+import { daysBetween, parseLocalDate } from './dates';
+import type { Quote } from './models';
+
+// The bundled quote corpus and the rotation through it. Everything here is deterministic,
+// so the same date gives the same quote on every device, online or not.
+
+export const QUOTE_CATEGORIES = [
+  { value: 'stoic', label: 'Stoic' },
+  { value: 'buddhist', label: 'Buddhist' },
+  { value: 'modern', label: 'Modern' },
+] as const;
+
+export type QuoteCategory = (typeof QUOTE_CATEGORIES)[number]['value'];
+
+// Category of quotes people write for themselves.
+export const MANTRA_CATEGORY = 'mantra';
+
+// The first seven keep the ids the daily quote endpoint has always served.
+export const QUOTES: Quote[] = [
+  { id: 'q1', text: 'You could leave life right now. Let that determine what you do and say and think.', author: 'Marcus Aurelius', category: 'stoic' },
+  { id: 'q2', text: 'It is not that we have a short time to live, but that we waste a lot of it.', author: 'Seneca', category: 'stoic' },
+  { id: 'q3', text: 'Let us prepare our minds as if we had come to the very end of life.', author: 'Seneca', category: 'stoic' },
+  { id: 'q4', text: 'The trouble is, you think you have time.', author: 'Jack Kornfield', category: 'buddhist' },
+  { id: 'q5', text: 'Remembering that you are going to die is the best way I know to avoid the trap of thinking you have something to lose.', author: 'Steve Jobs', category: 'modern' },
+  { id: 'q6', text: 'Death is not the opposite of life, but a part of it.', author: 'Haruki Murakami', category: 'modern' },
+  { id: 'q7', text: 'Do not act as if you were going to live ten thousand years.', author: 'Marcus Aurelius', category: 'stoic' },
+  { id: 'q8', text: 'Think of yourself as dead. You have lived your life. Now take what is left and live it properly.', author: 'Marcus Aurelius', category: 'stoic' },
+  { id: 'q9', text: 'Waste no more time arguing about what a good man should be. Be one.', author: 'Marcus Aurelius', category: 'stoic' },
+  { id: 'q10', text: 'Very little is needed to make a happy life; it is all within yourself, in your way of thinking.', author: 'Marcus Aurelius', category: 'stoic' },
+  { id: 'q11', text: 'Loss is nothing else but change, and change is Nature\'s delight.', author: 'Marcus Aurelius', category: 'stoic' },
+  { id: 'q12', text: 'While we wait for life, life passes.', author: 'Seneca', category: 'stoic' },
+  { id: 'q13', text: 'Begin at once to live, and count each separate day as a separate life.', author: 'Seneca', category: 'stoic' },
+  { id: 'q14', text: 'Life is long if you know how to use it.', author: 'Seneca', category: 'stoic' },
+  { id: 'q15', text: 'As is a tale, so is life: not how long it is, but how good it is, is what matters.', author: 'Seneca', category: 'stoic' },
+  { id: 'q16', text: 'No man is free who is not master of himself.', author: 'Epictetus', category: 'stoic' },
+  { id: 'q17', text: 'First say to yourself what you would be; and then do what you have to do.', author: 'Epictetus', category: 'stoic' },
+  { id: 'q18', text: 'Wealth consists not in having great possessions, but in having few wants.', author: 'Epictetus', category: 'stoic' },
+  { id: 'q19', text: 'It\'s not what happens to you, but how you react to it that matters.', author: 'Epictetus', category: 'stoic' },
+  { id: 'q20', text: 'The present moment is filled with joy and happiness. If you are attentive, you will see it.', author: 'Thich Nhat Hanh', category: 'buddhist' },
+  { id: 'q21', text: 'Walk as if you are kissing the Earth with your feet.', author: 'Thich Nhat Hanh', category: 'buddhist' },
+  { id: 'q22', text: 'Smile, breathe and go slowly.', author: 'Thich Nhat Hanh', category: 'buddhist' },
+  { id: 'q23', text: 'All that we are is the result of what we have thought.', author: 'The Dhammapada', category: 'buddhist' },
+  { id: 'q24', text: 'Better than a thousand hollow words is one word that brings peace.', author: 'The Dhammapada', category: 'buddhist' },
+  { id: 'q25', text: 'You are the sky. Everything else is just the weather.', author: 'Pema Chödrön', category: 'buddhist' },
+  { id: 'q26', text: 'Nothing ever goes away until it has taught us what we need to know.', author: 'Pema Chödrön', category: 'buddhist' },
+  { id: 'q27', text: 'In the beginner\'s mind there are many possibilities, but in the expert\'s there are few.', author: 'Shunryu Suzuki', category: 'buddhist' },
+  { id: 'q28', text: 'If you cannot find the truth right where you are, where else do you expect to find it?', author: 'Dōgen', category: 'buddhist' },
+  { id: 'q29', text: 'If you let go a little, you will have a little peace. If you let go a lot, you will have a lot of peace.', author: 'Ajahn Chah', category: 'buddhist' },
+  { id: 'q30', text: 'In the end, just three things matter: how well we have lived, how well we have loved, how well we have learned to let go.', author: 'Jack Kornfield', category: 'buddhist' },
+  { id: 'q31', text: 'Tell me, what is it you plan to do with your one wild and precious life?', author: 'Mary Oliver', category: 'modern' },
+  { id: 'q32', text: 'How we spend our days is, of course, how we spend our lives.', author: 'Annie Dillard', category: 'modern' },
+  { id: 'q33', text: 'Though the physicality of death destroys us, the idea of death saves us.', author: 'Irvin D. Yalom', category: 'modern' },
+  { id: 'q34', text: 'Once you learn how to die, you learn how to live.', author: 'Morrie Schwartz', category: 'modern' },
+  { id: 'q35', text: 'Even if I\'m dying, until I actually die, I am still living.', author: 'Paul Kalanithi', category: 'modern' },
+  { id: 'q36', text: 'The average human lifespan is absurdly, terrifyingly, insultingly short.', author: 'Oliver Burkeman', category: 'modern' },
+  { id: 'q37', text: 'Live as if you were living already for the second time and as if you had acted the first time as wrongly as you are about to act now.', author: 'Viktor E. Frankl', category: 'modern' },
+  { id: 'q38', text: 'Everything can be taken from a man but one thing: the last of the human freedoms, to choose one\'s attitude in any given set of circumstances.', author: 'Viktor E. Frankl', category: 'modern' },
+  { id: 'q39', text: 'We cannot change the cards we are dealt, just how we play the hand.', author: 'Randy Pausch', category: 'modern' },
+  { id: 'q40', text: 'Millions long for immortality who do not know what to do with themselves on a rainy Sunday afternoon.', author: 'Susan Ertz', category: 'modern' },
+];
+
+// mulberry32: a small seeded generator, so a shuffle can be repeated exactly.
+const seededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const shuffled = <T>(items: T[], seed: number): T[] => {
+  const random = seededRandom(seed);
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const EPOCH = new Date(1970, 0, 1);
+
+const dayNumber = (date: string) => {
+  const day = parseLocalDate(date);
+  if (!day) throw new Error(`Invalid date: ${date}`);
+  return daysBetween(EPOCH, day);
+};
+
+const byId = (a: Quote, b: Quote) => a.id.localeCompare(b.id);
+
+// The quote for a 'YYYY-MM-DD' date. Days walk through a shuffle of the whole rotation, so
+// no quote comes back until every other one has had its day.
+export const quoteOfTheDay = (rotation: Quote[], date: string): Quote | null => {
+  if (rotation.length === 0) return null;
+  const day = dayNumber(date);
+  const cycle = Math.floor(day / rotation.length);
+  return shuffled([...rotation].sort(byId), cycle)[day % rotation.length];
+};
+
+// Another quote for the same day, avoiding every quote already shown that day until the
+// rotation runs out, and never the one on screen.
+export const nextQuote = (rotation: Quote[], date: string, shownToday: string[], currentId?: string): Quote | null => {
+  const candidates = rotation.filter((quote) => quote.id !== currentId);
+  if (candidates.length === 0) return null;
+  const order = shuffled([...candidates].sort(byId), dayNumber(date) * 31 + shownToday.length);
+  return order.find((quote) => !shownToday.includes(quote.id)) ?? order[0];
+};
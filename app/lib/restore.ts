@@ -0,0 +1,232 @@
+import { Platform } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { api } from './api';
+import { Backup, BACKUP_FORMAT, BACKUP_VERSION, DeviceData, NO_DEVICE_DATA, readDeviceData } from './export';
+import {
+  array,
+  Goal,
+  GoalSchema,
+  LifeChapterSchema,
+  MomentFramingSchema,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  QuoteLibrary,
+  QuoteLibrarySchema,
+  Reflection,
+  ReflectionSchema,
+  string,
+  UserProfile,
+  UserProfileSchema,
+  ValidationError,
+  WeekNoteSchema,
+} from './models';
+import { HISTORY_LIMIT } from './quoteLibrary';
+import { store } from './store';
+import { goalInput, importRecords, reflectionInput } from './sync';
+
+export type RestoreMode = 'replace' | 'merge';
+
+// How many of each kind of device-only record the restore adds or, for week notes, updates.
+export interface DeviceRestoreCounts {
+  chapters: number;
+  weekNotes: number;
+  moments: number;
+  mantras: number;
+}
+
+export interface RestorePlan {
+  mode: RestoreMode;
+  backup: Backup;
+  goals: Goal[];
+  reflections: Reflection[];
+  skippedGoals: number;
+  skippedReflections: number;
+  device: DeviceRestoreCounts;
+}
+
+export class RestoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RestoreError';
+  }
+}
+
+const BackupSchema = object<Backup>({
+  format: oneOf([BACKUP_FORMAT] as const),
+  version: number,
+  exported_at: string,
+  profile: UserProfileSchema,
+  goals: array(GoalSchema),
+  reflections: array(ReflectionSchema),
+  // Missing from v1 backups.
+  chapters: (value, path) => optional(array(LifeChapterSchema))(value, path) ?? [],
+  week_notes: (value, path) => optional(array(WeekNoteSchema))(value, path) ?? [],
+  moments: nullable(array(MomentFramingSchema)),
+  quote_library: nullable(QuoteLibrarySchema),
+});
+
+export const parseBackup = (text: string): Backup => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new RestoreError('This file is not valid JSON.');
+  }
+
+  try {
+    const backup = BackupSchema(json);
+    if (backup.version > BACKUP_VERSION) {
+      throw new RestoreError('This backup was made by a newer version of the app. Please update first.');
+    }
+    return backup;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw new RestoreError(`This doesn't look like a Momento Mori backup (${error.message}).`);
+    }
+    throw error;
+  }
+};
+
+// Returns null when the user cancels the picker.
+export const pickBackup = async (): Promise<Backup | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['application/json', 'text/plain', '*/*'],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || result.assets.length === 0) return null;
+
+  const asset = result.assets[0];
+  const text =
+    Platform.OS === 'web'
+      ? await (await fetch(asset.uri)).text()
+      : await FileSystem.readAsStringAsync(asset.uri, { encoding: FileSystem.EncodingType.UTF8 });
+
+  return parseBackup(text);
+};
+
+// Records match when they share an id or a creation timestamp: restored records get new
+// server ids, so created_at is what recognises them on a second restore.
+const dedupe = <T extends { id: string; created_at: string }>(incoming: T[], existing: T[]) => {
+  const ids = new Set(existing.map((item) => item.id));
+  const createdAts = new Set(existing.map((item) => item.created_at));
+  const kept: T[] = [];
+
+  incoming.forEach((item) => {
+    if (ids.has(item.id) || createdAts.has(item.created_at)) return;
+    ids.add(item.id);
+    createdAts.add(item.created_at);
+    kept.push(item);
+  });
+
+  return { kept, skipped: incoming.length - kept.length };
+};
+
+const mergeQuoteLibrary = (incoming: QuoteLibrary, existing: QuoteLibrary): QuoteLibrary => {
+  const mantraIds = new Set(existing.mantras.map((mantra) => mantra.id));
+  const shown = new Set(existing.history.map((entry) => `${entry.date}:${entry.quote_id}`));
+  return {
+    favorites: [...new Set([...existing.favorites, ...incoming.favorites])],
+    mantras: [...existing.mantras, ...incoming.mantras.filter((mantra) => !mantraIds.has(mantra.id))],
+    // The rotation is a preference, not a record: the profile being restored into keeps its own.
+    categories: existing.categories,
+    history: [...existing.history, ...incoming.history.filter((entry) => !shown.has(`${entry.date}:${entry.quote_id}`))]
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .slice(0, HISTORY_LIMIT),
+  };
+};
+
+// Device-only data once `incoming` is added to `existing`. Records are matched by id, week
+// notes by their week (the later edit wins), and a null side means "still the defaults".
+export const mergeDeviceData = (incoming: DeviceData, existing: DeviceData): DeviceData => {
+  const chapterIds = new Set(existing.chapters.map((chapter) => chapter.id));
+  const notes = new Map(existing.week_notes.map((note) => [note.week_start, note]));
+  incoming.week_notes.forEach((note) => {
+    const current = notes.get(note.week_start);
+    if (!current || note.updated_at > current.updated_at) notes.set(note.week_start, note);
+  });
+  const framingIds = new Set((existing.moments ?? []).map((framing) => framing.id));
+
+  return {
+    chapters: [...existing.chapters, ...incoming.chapters.filter((chapter) => !chapterIds.has(chapter.id))],
+    week_notes: [...notes.values()].sort((a, b) => a.week_start.localeCompare(b.week_start)),
+    moments:
+      existing.moments && incoming.moments
+        ? [...existing.moments, ...incoming.moments.filter((framing) => !framingIds.has(framing.id))]
+        : existing.moments ?? incoming.moments,
+    quote_library:
+      existing.quote_library && incoming.quote_library
+        ? mergeQuoteLibrary(incoming.quote_library, existing.quote_library)
+        : existing.quote_library ?? incoming.quote_library,
+  };
+};
+
+const countDeviceChanges = (before: DeviceData, after: DeviceData): DeviceRestoreCounts => {
+  const changedNotes = after.week_notes.filter(
+    (note) => !before.week_notes.some((old) => old.week_start === note.week_start && old.updated_at === note.updated_at)
+  );
+  return {
+    chapters: after.chapters.length - before.chapters.length,
+    weekNotes: changedNotes.length,
+    // Restoring over the defaults brings in every framing of the backup.
+    moments: (after.moments?.length ?? 0) - (before.moments?.length ?? 0),
+    mantras: (after.quote_library?.mantras.length ?? 0) - (before.quote_library?.mantras.length ?? 0),
+  };
+};
+
+export const planRestore = (
+  backup: Backup,
+  mode: RestoreMode,
+  existing: { goals: Goal[]; reflections: Reflection[]; device: DeviceData }
+): RestorePlan => {
+  // Replacing starts from an empty profile, so only duplicates inside the file are dropped.
+  const against = mode === 'merge' ? existing : { goals: [], reflections: [], device: NO_DEVICE_DATA };
+  const goals = dedupe(backup.goals, against.goals);
+  const reflections = dedupe(backup.reflections, against.reflections);
+
+  return {
+    mode,
+    backup,
+    goals: goals.kept,
+    reflections: reflections.kept,
+    skippedGoals: goals.skipped,
+    skippedReflections: reflections.skipped,
+    device: countDeviceChanges(against.device, mergeDeviceData(backup, against.device)),
+  };
+};
+
+const writeDeviceData = async (profileId: string, data: DeviceData) => {
+  await store.setChapters(profileId, data.chapters);
+  await store.setWeekNotes(profileId, data.week_notes);
+  if (data.moments) await store.setMoments(profileId, data.moments);
+  if (data.quote_library) await store.setQuoteLibrary(profileId, data.quote_library);
+};
+
+// Replace creates a fresh profile from the backup and returns it; the caller then swaps it in
+// for the current one, which is only deleted once the backup is safely on the new profile.
+// Merge adds the new records to `current`. Records are queued, so they sync like any write;
+// device-only data is merged into what the profile has now, which is nothing after a replace.
+export const applyRestore = async (plan: RestorePlan, current: UserProfile | null): Promise<UserProfile> => {
+  let profile = current;
+
+  if (plan.mode === 'replace' || !profile) {
+    const { birth_date, life_expectancy, name, country } = plan.backup.profile;
+    const result = await api.createProfile({ birth_date, life_expectancy, name, country });
+    if (!result.ok) {
+      throw new RestoreError('Restoring a profile needs a connection to the server. Please try again when online.');
+    }
+    profile = result.data;
+  }
+
+  const userId = profile.id;
+  await importRecords(
+    plan.goals.map((goal) => goalInput(goal, userId)),
+    plan.reflections.map((reflection) => reflectionInput(reflection, userId))
+  );
+  await writeDeviceData(userId, mergeDeviceData(plan.backup, await readDeviceData(userId)));
+
+  return profile;
+};
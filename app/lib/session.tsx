@@ -0,0 +1,289 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { api, ApiResult } from './api';
+import { ensureMigrated } from './migrations';
+import { DeletionSummary, MortalityStats, UserProfile } from './models';
+import { calculateMortalityStats } from './mortality';
+import { store, StoredSession } from './store';
+import { moveJournal } from './sync';
+
+export type SessionStatus = 'loading' | 'signedIn' | 'signedOut';
+
+interface SessionContextValue {
+  status: SessionStatus;
+  profileId: string | null;
+  profile: UserProfile | null;
+  // Every profile on this device, as last cached, for the switcher.
+  profiles: UserProfile[];
+  stats: MortalityStats | null;
+  error: string | null;
+  // The server answered that the active profile doesn't exist. Its data is still on the device.
+  notFoundOnServer: boolean;
+  refresh: () => Promise<void>;
+  signIn: (profile: UserProfile) => Promise<void>;
+  switchProfile: (profileId: string) => Promise<void>;
+  updateProfile: (profile: UserProfile) => Promise<void>;
+  reuploadProfile: () => Promise<ApiResult<UserProfile>>;
+  replaceProfile: (replacement: UserProfile) => Promise<ApiResult<DeletionSummary>>;
+  deleteAccount: () => Promise<ApiResult<DeletionSummary>>;
+}
+
+const SessionContext = createContext<SessionContextValue | null>(null);
+
+// Stats are derived on-device; re-derive once a minute so day and week counts roll over.
+const STATS_REFRESH_MS = 60000;
+
+const loadCachedProfiles = async (profileIds: string[]) =>
+  (await Promise.all(profileIds.map((id) => store.getProfile(id)))).filter(
+    (cached): cached is UserProfile => cached !== null
+  );
+
+// Already gone on the server counts as deleted.
+const deleteOnServer = async (profileId: string): Promise<ApiResult<DeletionSummary>> => {
+  const result = await api.deleteProfile(profileId);
+  if (result.ok || !(result.error.kind === 'http' && result.error.status === 404)) return result;
+  return { ok: true, data: { goals_deleted: 0, reflections_deleted: 0 } };
+};
+
+export function SessionProvider({ children }: { children: React.ReactNode }) {
+  const [status, setStatus] = useState<SessionStatus>('loading');
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [profiles, setProfiles] = useState<UserProfile[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [notFoundOnServer, setNotFoundOnServer] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  // Drops a profile from this device and makes the next one (if any) active. Only called
+  // once the user has confirmed deleting that profile's data.
+  const forgetProfile = useCallback(async (removedId: string): Promise<StoredSession | null> => {
+    const session = await store.getSession();
+    const profileIds = (session?.profileIds ?? []).filter((id) => id !== removedId);
+    await store.removeProfileData(removedId);
+
+    if (profileIds.length === 0) {
+      await store.clearSession();
+      return null;
+    }
+    const activeId = session?.activeProfileId;
+    const next = { profileIds, activeProfileId: activeId && profileIds.includes(activeId) ? activeId : profileIds[0] };
+    await store.setSession(next);
+    return next;
+  }, []);
+
+  const load = useCallback(async () => {
+    try {
+      // Never read local data in a layout older than the code expects.
+      await ensureMigrated();
+
+      const session = await store.getSession();
+      const activeId = session?.activeProfileId;
+      setNotFoundOnServer(false);
+      if (!session || !activeId) {
+        setProfiles([]);
+        setProfileId(null);
+        setProfile(null);
+        setError(null);
+        setStatus('signedOut');
+        return;
+      }
+
+      setProfiles(await loadCachedProfiles(session.profileIds));
+      setProfileId(activeId);
+
+      // Show the cached profile immediately; the server copy replaces it when it arrives.
+      const cached = await store.getProfile(activeId);
+      setProfile(cached);
+      if (cached) {
+        setStatus('signedIn');
+      }
+
+      const result = await api.getProfile(activeId);
+      if (result.ok) {
+        await store.setProfile(result.data);
+        setProfile(result.data);
+        setProfiles((current) => current.map((p) => (p.id === result.data.id ? result.data : p)));
+        setError(null);
+        setStatus('signedIn');
+      } else if (result.error.kind === 'http' && result.error.status === 404) {
+        // A wrong backend URL or a restarted server answers 404 too, so this never signs out
+        // or deletes anything; the user chooses between retrying, uploading and removing.
+        setNotFoundOnServer(true);
+        setError(null);
+        setStatus('signedIn');
+      } else if (cached) {
+        // Offline or server trouble: the cached profile keeps the app usable.
+      } else if (result.error.kind === 'validation') {
+        setError('Received unexpected data from the server. Please try again later.');
+        setStatus('signedIn');
+      } else {
+        // Never sign out over a network problem; the user can retry once back online.
+        setError('Could not reach the server to load your profile. Please try again.');
+        setStatus('signedIn');
+      }
+    } catch (loadError) {
+      console.error('Error loading session:', loadError);
+      setError('Failed to load user data. Please try again.');
+      setStatus('signedIn');
+    }
+  }, []);
+
+  // Adds the profile to this device (if new) and makes it the active one.
+  const signIn = useCallback(async (newProfile: UserProfile) => {
+    const session = await store.getSession();
+    const profileIds = session?.profileIds ?? [];
+    await store.setProfile(newProfile);
+    await store.setSession({
+      profileIds: profileIds.includes(newProfile.id) ? profileIds : [...profileIds, newProfile.id],
+      activeProfileId: newProfile.id,
+    });
+    setProfiles((current) => [...current.filter((p) => p.id !== newProfile.id), newProfile]);
+    setProfileId(newProfile.id);
+    setProfile(newProfile);
+    setError(null);
+    setStatus('signedIn');
+  }, []);
+
+  const switchProfile = useCallback(
+    async (nextId: string) => {
+      const session = await store.getSession();
+      if (!session || !session.profileIds.includes(nextId)) return;
+      await store.setSession({ ...session, activeProfileId: nextId });
+      await load();
+    },
+    [load]
+  );
+
+  const updateProfile = useCallback(async (updated: UserProfile) => {
+    await store.setProfile(updated);
+    setProfile(updated);
+    setProfiles((current) => current.map((p) => (p.id === updated.id ? updated : p)));
+  }, []);
+
+  // Creates the active profile again on a server that no longer has it, and moves this
+  // device's journal over to the new id so all of it syncs up again.
+  const reuploadProfile = useCallback(async (): Promise<ApiResult<UserProfile>> => {
+    const session = await store.getSession();
+    const cached = profileId ? await store.getProfile(profileId) : null;
+    if (!session || !profileId || !cached) {
+      return { ok: false, error: { kind: 'http', status: 404, message: 'No profile to upload' } };
+    }
+
+    const { birth_date, life_expectancy, name, country } = cached;
+    const result = await api.createProfile({ birth_date, life_expectancy, name, country });
+    if (!result.ok) return result;
+
+    await moveJournal(profileId, result.data.id);
+    await store.setProfile(result.data);
+    await store.setSession({
+      profileIds: session.profileIds.map((id) => (id === profileId ? result.data.id : id)),
+      activeProfileId: result.data.id,
+    });
+    await load();
+    return result;
+  }, [profileId, load]);
+
+  // Deletes on the server first; local data is only cleared once the server confirms,
+  // so a failed request never leaves the user with nothing on either side. Other
+  // profiles on the device are untouched.
+  const deleteAccount = useCallback(async (): Promise<ApiResult<DeletionSummary>> => {
+    if (!profileId) {
+      return { ok: false, error: { kind: 'http', status: 404, message: 'No profile to delete' } };
+    }
+
+    const result = await deleteOnServer(profileId);
+    if (!result.ok) return result;
+
+    await forgetProfile(profileId);
+    await load();
+    return result;
+  }, [profileId, forgetProfile, load]);
+
+  // Makes `replacement` (e.g. a restored backup) the active profile, then deletes the one it
+  // replaces on the server and this device. If the server can't delete it, the old profile
+  // stays in the switcher and the error is returned.
+  const replaceProfile = useCallback(
+    async (replacement: UserProfile): Promise<ApiResult<DeletionSummary>> => {
+      const replacedId = profileId;
+      await signIn(replacement);
+      if (!replacedId || replacedId === replacement.id) {
+        return { ok: true, data: { goals_deleted: 0, reflections_deleted: 0 } };
+      }
+
+      const result = await deleteOnServer(replacedId);
+      if (!result.ok) return result;
+
+      await forgetProfile(replacedId);
+      setProfiles((current) => current.filter((p) => p.id !== replacedId));
+      return result;
+    },
+    [profileId, signIn, forgetProfile]
+  );
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), STATS_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const stats = useMemo(() => {
+    if (!profile) return null;
+    try {
+      return calculateMortalityStats(profile.birth_date, profile.life_expectancy, now);
+    } catch (statsError) {
+      console.error('Error calculating mortality stats:', statsError);
+      return null;
+    }
+  }, [profile, now]);
+
+  const value = useMemo<SessionContextValue>(
+    () => ({
+      status,
+      profileId,
+      profile,
+      profiles,
+      stats,
+      error,
+      notFoundOnServer,
+      refresh: load,
+      signIn,
+      switchProfile,
+      updateProfile,
+      reuploadProfile,
+      replaceProfile,
+      deleteAccount,
+    }),
+    [
+      status,
+      profileId,
+      profile,
+      profiles,
+      stats,
+      error,
+      notFoundOnServer,
+      load,
+      signIn,
+      switchProfile,
+      updateProfile,
+      reuploadProfile,
+      replaceProfile,
+      deleteAccount,
+    ]
+  );
+
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>;
+}
+
+export const useSession = (): SessionContextValue => {
+  const context = useContext(SessionContext);
+  if (!context) {
+    throw new Error('useSession must be used within a SessionProvider');
+  }
+  return context;
+};
+
+export const useProfile = () => useSession().profile;
+
+export const useMortalityStats = () => useSession().stats;
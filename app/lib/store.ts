@@ -0,0 +1,242 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { open, seal } from './crypto';
+import {
+  Goal,
+  LifeChapter,
+  MomentFraming,
+  QuoteLibrary,
+  Reflection,
+  UserProfile,
+  WeekNote,
+} from './models';
+
+export type SyncStatus = 'synced' | 'pending' | 'failed';
+
+// A record as held on the device: the server shape plus where it stands in the sync queue.
+export type Local<T> = T & {
+  sync_status: SyncStatus;
+  sync_error?: string;
+};
+
+export interface StoredSession {
+  // Every profile set up on this device, in the order they were added.
+  profileIds: string[];
+  activeProfileId: string | null;
+}
+
+// The single-profile session record written before storage v3.
+interface SessionV1 {
+  profileId: string;
+  onboardingCompleted: boolean;
+}
+
+// Pre-versioning keys, still read as a fallback until the v1 migration has moved them.
+export const LEGACY_KEYS = {
+  onboardingCompleted: 'onboardingCompleted',
+  userProfileId: 'userProfileId',
+};
+
+export const STORE_KEYS = {
+  version: 'store:version',
+  session: 'store:session',
+  onboardingDraft: 'store:onboardingDraft',
+  profile: (profileId: string) => `store:profile:${profileId}`,
+  lock: (profileId: string) => `store:lock:${profileId}`,
+  queue: (userId: string) => `store:syncQueue:${userId}`,
+  goals: (userId: string) => `store:goals:${userId}`,
+  reflections: (userId: string) => `store:reflections:${userId}`,
+  chapters: (profileId: string) => `store:chapters:${profileId}`,
+  weekNotes: (profileId: string) => `store:weekNotes:${profileId}`,
+  moments: (profileId: string) => `store:moments:${profileId}`,
+  quoteLibrary: (profileId: string) => `store:quoteLibrary:${profileId}`,
+};
+
+export class StoreLockedError extends Error {
+  constructor(key: string) {
+    super(`${key} is encrypted and the app is locked`);
+    this.name = 'StoreLockedError';
+  }
+}
+
+// Journal content (cached goals, reflections, life chapters, week notes, moment framings, the
+// quote library and the queued writes) is sealed with the owning profile's passcode key when it has one.
+// Everything else stays plain so the app can route and show the lock screen before a
+// passcode is entered.
+export type Vault = { state: 'off' } | { state: 'locked' } | { state: 'unlocked'; key: Uint8Array };
+
+const SEALED_PREFIX = 'sealed:v1:';
+const SENSITIVE_PREFIXES = [
+  STORE_KEYS.queue(''),
+  STORE_KEYS.goals(''),
+  STORE_KEYS.reflections(''),
+  STORE_KEYS.chapters(''),
+  STORE_KEYS.weekNotes(''),
+  STORE_KEYS.moments(''),
+  STORE_KEYS.quoteLibrary(''),
+];
+
+const vaults = new Map<string, Vault>();
+
+const vaultFor = (profileId: string): Vault => vaults.get(profileId) ?? { state: 'off' };
+
+// The profile whose passcode protects `key`, or null for keys that are never sealed.
+const sensitiveOwner = (key: string): string | null => {
+  const prefix = SENSITIVE_PREFIXES.find((candidate) => key.startsWith(candidate));
+  return prefix ? key.slice(prefix.length) : null;
+};
+
+export const setVault = (profileId: string, next: Vault) => {
+  vaults.set(profileId, next);
+};
+
+// Forgets the key of an unlocked profile; profiles without a passcode are unaffected.
+export const lockVault = (profileId: string) => {
+  if (vaultFor(profileId).state === 'unlocked') {
+    vaults.set(profileId, { state: 'locked' });
+  }
+};
+
+const readJSON = async <T>(key: string, fallback: T): Promise<T> => {
+  let raw: string | null;
+  try {
+    raw = await AsyncStorage.getItem(key);
+  } catch (error) {
+    console.error(`Error reading ${key} from store:`, error);
+    return fallback;
+  }
+  if (!raw) return fallback;
+
+  // Values written before the passcode was turned on are still plain JSON and read as-is.
+  if (raw.startsWith(SEALED_PREFIX)) {
+    const owner = sensitiveOwner(key);
+    const vault = owner === null ? null : vaultFor(owner);
+    if (vault?.state !== 'unlocked') throw new StoreLockedError(key);
+    raw = open(vault.key, raw.slice(SEALED_PREFIX.length));
+  }
+
+  try {
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    console.error(`Error reading ${key} from store:`, error);
+    return fallback;
+  }
+};
+
+const writeJSON = async (key: string, value: unknown): Promise<void> => {
+  const json = JSON.stringify(value);
+  const owner = sensitiveOwner(key);
+  const vault = owner === null ? null : vaultFor(owner);
+  if (vault === null || vault.state === 'off') {
+    await AsyncStorage.setItem(key, json);
+    return;
+  }
+  // Never fall back to writing journal content in the clear while locked.
+  if (vault.state === 'locked') throw new StoreLockedError(key);
+  await AsyncStorage.setItem(key, SEALED_PREFIX + seal(vault.key, json));
+};
+
+// Every key kept on the device for one profile: its cache, journal, queued writes and passcode.
+const profileKeys = (profileId: string) => [
+  STORE_KEYS.profile(profileId),
+  STORE_KEYS.lock(profileId),
+  STORE_KEYS.queue(profileId),
+  STORE_KEYS.goals(profileId),
+  STORE_KEYS.reflections(profileId),
+  STORE_KEYS.chapters(profileId),
+  STORE_KEYS.weekNotes(profileId),
+  STORE_KEYS.moments(profileId),
+  STORE_KEYS.quoteLibrary(profileId),
+];
+
+const getKeysWithPrefix = async (prefix: string) =>
+  (await AsyncStorage.getAllKeys()).filter((key) => key.startsWith(prefix));
+
+const getSensitiveKeys = async (profileId: string) =>
+  (await AsyncStorage.getAllKeys()).filter((key) => sensitiveOwner(key) === profileId);
+
+const toSession = (record: StoredSession | SessionV1 | null): StoredSession | null => {
+  if (!record) return null;
+  if ('profileIds' in record) return record;
+  return record.onboardingCompleted ? { profileIds: [record.profileId], activeProfileId: record.profileId } : null;
+};
+
+const readLegacySession = async (): Promise<StoredSession | null> => {
+  const [profileId, onboardingCompleted] = await Promise.all([
+    AsyncStorage.getItem(LEGACY_KEYS.userProfileId),
+    AsyncStorage.getItem(LEGACY_KEYS.onboardingCompleted),
+  ]);
+  return profileId ? toSession({ profileId, onboardingCompleted: onboardingCompleted === 'true' }) : null;
+};
+
+export const store = {
+  // Older single-profile records are read as a one-profile session until v3 rewrites them.
+  getSession: async () =>
+    toSession(await readJSON<StoredSession | SessionV1 | null>(STORE_KEYS.session, null)) ?? readLegacySession(),
+  // Accepts the v1 record too: the v1 migration still writes the shape it always has.
+  setSession: (session: StoredSession | SessionV1) => writeJSON(STORE_KEYS.session, session),
+  clearSession: () =>
+    AsyncStorage.multiRemove([STORE_KEYS.session, LEGACY_KEYS.userProfileId, LEGACY_KEYS.onboardingCompleted]),
+
+  getProfile: (profileId: string) => readJSON<UserProfile | null>(STORE_KEYS.profile(profileId), null),
+  setProfile: (profile: UserProfile) => writeJSON(STORE_KEYS.profile(profile.id), profile),
+
+  removeProfileData: async (profileId: string) => {
+    await AsyncStorage.multiRemove(profileKeys(profileId));
+    vaults.delete(profileId);
+  },
+
+  // Re-keys a profile's data under a new id. Values move as stored, so sealed ones stay
+  // sealed with the same passcode.
+  moveProfileData: async (fromId: string, toId: string) => {
+    const from = profileKeys(fromId);
+    const to = profileKeys(toId);
+    const values = await AsyncStorage.multiGet(from);
+    await AsyncStorage.multiSet(
+      values.flatMap(([, value], i): [string, string][] => (value === null ? [] : [[to[i], value]]))
+    );
+    await AsyncStorage.multiRemove(from);
+    vaults.set(toId, vaultFor(fromId));
+    vaults.delete(fromId);
+  },
+
+  getGoals: (userId: string) => readJSON<Local<Goal>[]>(STORE_KEYS.goals(userId), []),
+  setGoals: (userId: string, goals: Local<Goal>[]) => writeJSON(STORE_KEYS.goals(userId), goals),
+
+  getReflections: (userId: string) =>
+    readJSON<Local<Reflection>[]>(STORE_KEYS.reflections(userId), []),
+  setReflections: (userId: string, reflections: Local<Reflection>[]) =>
+    writeJSON(STORE_KEYS.reflections(userId), reflections),
+
+  getChapters: (profileId: string) => readJSON<LifeChapter[]>(STORE_KEYS.chapters(profileId), []),
+  setChapters: (profileId: string, chapters: LifeChapter[]) => writeJSON(STORE_KEYS.chapters(profileId), chapters),
+
+  getWeekNotes: (profileId: string) => readJSON<WeekNote[]>(STORE_KEYS.weekNotes(profileId), []),
+  setWeekNotes: (profileId: string, notes: WeekNote[]) => writeJSON(STORE_KEYS.weekNotes(profileId), notes),
+
+  // Null until the profile has changed its framings, so the defaults can be shown instead.
+  getMoments: (profileId: string) => readJSON<MomentFraming[] | null>(STORE_KEYS.moments(profileId), null),
+  setMoments: (profileId: string, framings: MomentFraming[]) => writeJSON(STORE_KEYS.moments(profileId), framings),
+
+  getQuoteLibrary: (profileId: string) => readJSON<QuoteLibrary | null>(STORE_KEYS.quoteLibrary(profileId), null),
+  setQuoteLibrary: (profileId: string, library: QuoteLibrary) =>
+    writeJSON(STORE_KEYS.quoteLibrary(profileId), library),
+
+  getJSON: readJSON,
+  setJSON: writeJSON,
+  removeJSON: (...keys: string[]) => AsyncStorage.multiRemove(keys),
+
+  getKeysWithPrefix,
+  getSensitiveKeys,
+
+  // Seals journal values of an unlocked profile that are still plain, e.g. under a key that
+  // only became sensitive after the passcode was set.
+  sealPlainValues: async (profileId: string) => {
+    if (vaultFor(profileId).state !== 'unlocked') return;
+    for (const key of await getSensitiveKeys(profileId)) {
+      const raw = await AsyncStorage.getItem(key);
+      if (raw && !raw.startsWith(SEALED_PREFIX)) {
+        await writeJSON(key, await readJSON<unknown>(key, null));
+      }
+    }
+  },
+};
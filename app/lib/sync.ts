@@ -0,0 +1,439 @@
+import NetInfo from '@react-native-community/netinfo';
+import { api, ApiError, ApiResult } from './api';
+import { generateId } from './ids';
+import { CreateGoalInput, CreateReflectionInput, Goal, Reflection } from './models';
+import { Local, store, STORE_KEYS, StoreLockedError, SyncStatus } from './store';
+
+type QueuedOperation = {
+  id: string;
+  userId: string;
+  queuedAt: string;
+  failed?: boolean;
+  error?: string;
+} & (
+  | { type: 'createGoal'; localId: string; input: CreateGoalInput }
+  | { type: 'updateGoalStatus'; goalId: string; status: Goal['status'] }
+  | { type: 'createReflection'; localId: string; input: CreateReflectionInput }
+);
+
+type QueuedOperationInput = QueuedOperation extends infer Op
+  ? Op extends unknown
+    ? Omit<Op, 'id' | 'queuedAt' | 'failed' | 'error'>
+    : never
+  : never;
+
+const LOCAL_ID_PREFIX = 'local-';
+
+const listeners = new Set<() => void>();
+let flushing: Promise<void> | null = null;
+let lock: Promise<unknown> = Promise.resolve();
+
+export const isLocalId = (id: string) => id.startsWith(LOCAL_ID_PREFIX);
+
+const notify = () => listeners.forEach((listener) => listener());
+
+// Screens subscribe so cached lists re-render as queued writes reach the server.
+export const subscribeToSync = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Every read-modify-write of the queue or the cached lists goes through here, so a
+// flush running in the background never overwrites a write the user just made.
+export const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = lock.then(task);
+  lock = run.catch(() => undefined);
+  return run;
+};
+
+// Each profile has its own queue, sealed with its own passcode when it has one.
+const getQueue = (userId: string) => store.getJSON<QueuedOperation[]>(STORE_KEYS.queue(userId), []);
+
+const mutateQueue = (userId: string, mutate: (queue: QueuedOperation[]) => QueuedOperation[]) =>
+  serialize(async () => store.setJSON(STORE_KEYS.queue(userId), mutate(await getQueue(userId))));
+
+const enqueue = (operation: QueuedOperationInput) =>
+  mutateQueue(operation.userId, (queue) => [
+    ...queue,
+    { ...operation, id: generateId(LOCAL_ID_PREFIX), queuedAt: new Date().toISOString() } as QueuedOperation,
+  ]);
+
+const getQueueOwners = async () => {
+  const prefix = STORE_KEYS.queue('');
+  return (await store.getKeysWithPrefix(prefix)).map((key) => key.slice(prefix.length));
+};
+
+// Runs `task` for every profile's queue. Queues sealed by a passcode that hasn't been
+// entered yet are skipped; they're picked up after that profile is unlocked.
+const forEachReadableQueue = async (task: (userId: string) => Promise<boolean | void>) => {
+  for (const userId of await getQueueOwners()) {
+    try {
+      if ((await task(userId)) === false) return;
+    } catch (error) {
+      if (!(error instanceof StoreLockedError)) throw error;
+    }
+  }
+};
+
+export const getPendingCount = async (userId: string) =>
+  (await getQueue(userId)).filter((op) => !op.failed).length;
+
+const mutateGoals = (userId: string, mutate: (goals: Local<Goal>[]) => Local<Goal>[]) =>
+  serialize(async () => store.setGoals(userId, mutate(await store.getGoals(userId))));
+
+const mutateReflections = (userId: string, mutate: (reflections: Local<Reflection>[]) => Local<Reflection>[]) =>
+  serialize(async () => store.setReflections(userId, mutate(await store.getReflections(userId))));
+
+const updateGoal = (userId: string, goalId: string, update: (goal: Local<Goal>) => Local<Goal>) =>
+  mutateGoals(userId, (goals) => goals.map((goal) => (goal.id === goalId ? update(goal) : goal)));
+
+const updateReflection = (
+  userId: string,
+  reflectionId: string,
+  update: (reflection: Local<Reflection>) => Local<Reflection>
+) =>
+  mutateReflections(userId, (reflections) =>
+    reflections.map((reflection) => (reflection.id === reflectionId ? update(reflection) : reflection))
+  );
+
+const markFailed = async (operation: QueuedOperation, error: string) => {
+  await mutateQueue(operation.userId, (queue) =>
+    queue.map((op) => (op.id === operation.id ? { ...op, failed: true, error } : op))
+  );
+
+  const markItem = <T extends object>(item: Local<T>): Local<T> => ({
+    ...item,
+    sync_status: 'failed',
+    sync_error: error,
+  });
+
+  switch (operation.type) {
+    case 'createGoal':
+      return updateGoal(operation.userId, operation.localId, markItem);
+    case 'updateGoalStatus':
+      return updateGoal(operation.userId, operation.goalId, markItem);
+    case 'createReflection':
+      return updateReflection(operation.userId, operation.localId, markItem);
+  }
+};
+
+// Creates are keyed by the record's local id: a create replayed after a timeout, or retried
+// after its response was rejected, returns the record the server already stored.
+const send = async (operation: QueuedOperation): Promise<ApiResult<unknown>> => {
+  switch (operation.type) {
+    case 'createGoal': {
+      const result = await api.createGoal(operation.input, operation.localId);
+      if (result.ok) {
+        await updateGoal(operation.userId, operation.localId, () => ({ ...result.data, sync_status: 'synced' }));
+      }
+      return result;
+    }
+    case 'updateGoalStatus': {
+      const result = await api.updateGoalStatus(operation.goalId, operation.status);
+      if (result.ok) {
+        await updateGoal(operation.userId, operation.goalId, (goal) => ({
+          ...goal,
+          ...result.data,
+          sync_status: 'synced',
+          sync_error: undefined,
+        }));
+      }
+      return result;
+    }
+    case 'createReflection': {
+      const result = await api.createReflection(operation.input, operation.localId);
+      if (result.ok) {
+        await updateReflection(operation.userId, operation.localId, () => ({
+          ...result.data,
+          sync_status: 'synced',
+        }));
+      }
+      return result;
+    }
+  }
+};
+
+const isTransient = (error: ApiError) =>
+  error.kind === 'network' || error.kind === 'timeout' || (error.kind === 'http' && (error.status ?? 0) >= 500);
+
+// Returns false when it stopped on a transient error, i.e. the server is out of reach.
+const flushQueueOf = async (userId: string): Promise<boolean> => {
+  // Re-read on every step: writes made while we wait on the network join the end of the line.
+  for (;;) {
+    const queue = await getQueue(userId);
+    const operation = queue.find((op) => !op.failed);
+    if (!operation) return true;
+
+    // An operation that targets a goal whose creation failed can never succeed.
+    const dependsOnFailed =
+      operation.type === 'updateGoalStatus' &&
+      queue.some((op) => op.failed && op.type === 'createGoal' && op.localId === operation.goalId);
+
+    if (dependsOnFailed) {
+      await markFailed(operation, 'Goal was never created on the server');
+      notify();
+      continue;
+    }
+
+    const result = await send(operation);
+
+    if (result.ok) {
+      // Creates hand back the server id; later operations queued against the local id follow it.
+      const localId = operation.type === 'createGoal' ? operation.localId : null;
+      const serverId = localId ? (result.data as Goal).id : null;
+      await mutateQueue(userId, (current) =>
+        current
+          .filter((op) => op.id !== operation.id)
+          .map((op) =>
+            serverId && op.type === 'updateGoalStatus' && op.goalId === localId ? { ...op, goalId: serverId } : op
+          )
+      );
+      notify();
+      continue;
+    }
+
+    if (isTransient(result.error)) {
+      // Still offline (or the server is struggling): keep order and try again later.
+      return false;
+    }
+
+    await markFailed(operation, result.error.message);
+    notify();
+  }
+};
+
+// Stops at the first queue that can't reach the server; the rest would fail the same way.
+const runFlush = () => forEachReadableQueue(flushQueueOf);
+
+// Replays queued writes in the order they were made. Concurrent callers share one run.
+export const flushQueue = (): Promise<void> => {
+  if (!flushing) {
+    flushing = runFlush()
+      .catch((error) => console.error('Error flushing sync queue:', error))
+      .finally(() => {
+        flushing = null;
+      });
+  }
+  return flushing;
+};
+
+const markPending = <T extends object>(item: Local<T>): Local<T> => ({
+  ...item,
+  sync_status: 'pending',
+  sync_error: undefined,
+});
+
+export const retryFailed = async () => {
+  const failed: QueuedOperation[] = [];
+  await forEachReadableQueue(async (userId) => {
+    failed.push(...(await getQueue(userId)).filter((op) => op.failed));
+    await mutateQueue(userId, (queue) =>
+      queue.map(({ failed: _failed, error: _error, ...op }) => op as QueuedOperation)
+    );
+  });
+
+  for (const operation of failed) {
+    if (operation.type === 'createReflection') {
+      await updateReflection(operation.userId, operation.localId, markPending);
+    } else {
+      const goalId = operation.type === 'createGoal' ? operation.localId : operation.goalId;
+      await updateGoal(operation.userId, goalId, markPending);
+    }
+  }
+
+  notify();
+  await flushQueue();
+};
+
+// Flushes whenever connectivity comes back. Returns the unsubscribe function.
+export const startSyncOnReconnect = () =>
+  NetInfo.addEventListener((state) => {
+    if (state.isConnected && state.isInternetReachable !== false) {
+      flushQueue();
+    }
+  });
+
+// Server lists are authoritative for synced records; anything still waiting on the
+// queue keeps its local version so optimistic edits don't flicker back.
+const mergeWithLocal = <T extends { id: string; created_at: string }>(
+  server: T[],
+  local: Local<T>[]
+): Local<T>[] => {
+  const unsynced = local.filter((item) => item.sync_status !== 'synced');
+  const unsyncedIds = new Set(unsynced.map((item) => item.id));
+  const merged: Local<T>[] = [
+    ...unsynced,
+    ...server
+      .filter((item) => !unsyncedIds.has(item.id))
+      .map((item) => ({ ...item, sync_status: 'synced' as const })),
+  ];
+  return merged.sort((a, b) => b.created_at.localeCompare(a.created_at));
+};
+
+export const refreshGoals = async (userId: string): Promise<Local<Goal>[]> => {
+  await flushQueue();
+  const result = await api.getGoals(userId);
+  if (result.ok) {
+    await mutateGoals(userId, (local) => mergeWithLocal(result.data, local));
+  }
+  return store.getGoals(userId);
+};
+
+export const refreshReflections = async (userId: string): Promise<Local<Reflection>[]> => {
+  await flushQueue();
+  const result = await api.getReflections(userId);
+  if (result.ok) {
+    await mutateReflections(userId, (local) => mergeWithLocal(result.data, local));
+  }
+  return store.getReflections(userId);
+};
+
+// Optimistically adds a goal to the device and queues its creation, without flushing.
+const stageGoal = async (input: CreateGoalInput): Promise<Local<Goal>> => {
+  const now = new Date().toISOString();
+  const goal: Local<Goal> = {
+    id: generateId(LOCAL_ID_PREFIX),
+    title: input.title,
+    description: input.description,
+    category: input.category,
+    priority: input.priority,
+    status: input.status ?? 'active',
+    target_date: input.target_date,
+    created_at: input.created_at ?? now,
+    updated_at: input.created_at ?? now,
+    sync_status: 'pending',
+  };
+
+  await mutateGoals(input.user_id, (goals) => [goal, ...goals]);
+  await enqueue({ type: 'createGoal', userId: input.user_id, localId: goal.id, input });
+  return goal;
+};
+
+export const createGoal = async (input: CreateGoalInput): Promise<SyncStatus> => {
+  const goal = await stageGoal(input);
+  notify();
+  await flushQueue();
+
+  // Once synced the local record is replaced by the server's, under the server id.
+  const stored = (await store.getGoals(input.user_id)).find((item) => item.id === goal.id);
+  return stored ? stored.sync_status : 'synced';
+};
+
+export const updateGoalStatus = async (userId: string, goalId: string, status: Goal['status']) => {
+  await updateGoal(userId, goalId, (goal) => ({
+    ...goal,
+    status,
+    updated_at: new Date().toISOString(),
+    sync_status: 'pending',
+    sync_error: undefined,
+  }));
+  await enqueue({ type: 'updateGoalStatus', userId, goalId, status });
+  notify();
+  await flushQueue();
+};
+
+const stageReflection = async (input: CreateReflectionInput): Promise<Local<Reflection>> => {
+  const now = new Date().toISOString();
+  const reflection: Local<Reflection> = {
+    id: generateId(LOCAL_ID_PREFIX),
+    type: input.type,
+    date: input.date ?? now,
+    mood_score: input.mood_score,
+    productivity_score: input.productivity_score,
+    gratitude_items: input.gratitude_items,
+    lessons_learned: input.lessons_learned,
+    goals_progress: input.goals_progress,
+    challenges_faced: input.challenges_faced,
+    created_at: input.created_at ?? now,
+    sync_status: 'pending',
+  };
+
+  await mutateReflections(input.user_id, (reflections) => [reflection, ...reflections]);
+  await enqueue({ type: 'createReflection', userId: input.user_id, localId: reflection.id, input });
+  return reflection;
+};
+
+export const createReflection = async (input: CreateReflectionInput): Promise<SyncStatus> => {
+  const reflection = await stageReflection(input);
+  notify();
+  await flushQueue();
+
+  const stored = (await store.getReflections(input.user_id)).find((item) => item.id === reflection.id);
+  return stored ? stored.sync_status : 'synced';
+};
+
+// The create request that brings a cached record back to the server as it is now.
+export const goalInput = (goal: Goal, userId: string): CreateGoalInput => ({
+  user_id: userId,
+  title: goal.title,
+  description: goal.description,
+  category: goal.category,
+  priority: goal.priority,
+  target_date: goal.target_date,
+  status: goal.status,
+  created_at: goal.created_at,
+});
+
+export const reflectionInput = (reflection: Reflection, userId: string): CreateReflectionInput => ({
+  user_id: userId,
+  type: reflection.type,
+  mood_score: reflection.mood_score,
+  productivity_score: reflection.productivity_score,
+  gratitude_items: reflection.gratitude_items,
+  lessons_learned: reflection.lessons_learned,
+  goals_progress: reflection.goals_progress,
+  challenges_faced: reflection.challenges_faced,
+  date: reflection.date,
+  created_at: reflection.created_at,
+});
+
+// Moves a profile's journal to the id the server gave it when it was uploaded again, and
+// queues every cached record to be created there, oldest first. The old queue is dropped:
+// the cache already holds each record in its latest state, unsynced edits included.
+export const moveJournal = async (fromId: string, toId: string) => {
+  // Let a running flush finish first, so nothing is written back under the old id.
+  await flushQueue();
+  await serialize(async () => {
+    await store.moveProfileData(fromId, toId);
+    const goals = await store.getGoals(toId);
+    const reflections = await store.getReflections(toId);
+    const queuedAt = new Date().toISOString();
+    const queue: QueuedOperation[] = [
+      ...[...goals].reverse().map((goal): QueuedOperation => ({
+        id: generateId(LOCAL_ID_PREFIX),
+        queuedAt,
+        type: 'createGoal',
+        userId: toId,
+        localId: goal.id,
+        input: goalInput(goal, toId),
+      })),
+      ...[...reflections].reverse().map((reflection): QueuedOperation => ({
+        id: generateId(LOCAL_ID_PREFIX),
+        queuedAt,
+        type: 'createReflection',
+        userId: toId,
+        localId: reflection.id,
+        input: reflectionInput(reflection, toId),
+      })),
+    ];
+    await store.setGoals(toId, goals.map(markPending));
+    await store.setReflections(toId, reflections.map(markPending));
+    await store.setJSON(STORE_KEYS.queue(toId), queue);
+  });
+  notify();
+  await flushQueue();
+};
+
+// Queues many records at once (e.g. a restored backup) and replays them in order.
+export const importRecords = async (goals: CreateGoalInput[], reflections: CreateReflectionInput[]) => {
+  for (const goal of goals) {
+    await stageGoal(goal);
+  }
+  for (const reflection of reflections) {
+    await stageReflection(reflection);
+  }
+  notify();
+  await flushQueue();
+};
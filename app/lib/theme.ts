@@ -0,0 +1,71 @@
+import { StyleSheet } from 'react-native';
+
+export const COLORS = {
+  background: '#0C0C0C',
+  card: '#1A1A1A',
+  track: '#2A2A2A',
+  gold: '#D4AF37',
+  text: '#FFFFFF',
+  textMuted: '#CCCCCC',
+  accent: '#FF6B6B',
+};
+
+// The home tab's quote and stats cards. Shared images are drawn from the same styles, so a
+// shared card looks like the one on screen.
+export const cardStyles = StyleSheet.create({
+  quoteContainer: {
+    margin: 16,
+    padding: 20,
+    backgroundColor: COLORS.card,
+    borderRadius: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: COLORS.gold,
+  },
+  quoteTitle: {
+    color: COLORS.gold,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  quoteText: {
+    color: COLORS.text,
+    fontSize: 16,
+    fontStyle: 'italic',
+    lineHeight: 24,
+    marginBottom: 8,
+  },
+  quoteAuthor: {
+    color: COLORS.textMuted,
+    fontSize: 14,
+    textAlign: 'right',
+  },
+  statsContainer: {
+    margin: 16,
+    padding: 20,
+    backgroundColor: COLORS.card,
+    borderRadius: 12,
+  },
+  sectionTitle: {
+    color: COLORS.gold,
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  progressLabel: {
+    color: COLORS.text,
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  progressBar: {
+    height: 8,
+    backgroundColor: COLORS.track,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: COLORS.gold,
+  },
+});
@@ -0,0 +1,65 @@
+import { addDays, daysBetween, parseLocalDate, startOfDay, toDateString } from './dates';
+import type { Goal, Reflection, WeekNote } from './models';
+import { store } from './store';
+
+// Weeks of life as the life calendar numbers them: week N runs from day 7N after birth for
+// seven days, whatever weekday that is.
+
+export const weekStart = (birth: Date, index: number): Date => addDays(birth, index * 7);
+
+// The week of life a moment falls in. Timestamps are placed by their local calendar day.
+export const weekIndexOf = (birth: Date, moment: Date): number =>
+  Math.floor(daysBetween(birth, startOfDay(moment)) / 7);
+
+export interface WeekEntries {
+  reflections: Reflection[];
+  goalsCreated: Goal[];
+  goalsCompleted: Goal[];
+  note: WeekNote | null;
+}
+
+const inWeek = (birth: Date, index: number, timestamp: string) => {
+  const moment = new Date(timestamp);
+  return !Number.isNaN(moment.getTime()) && weekIndexOf(birth, moment) === index;
+};
+
+// Everything in the journal that happened during one week. Goals have no completion date of
+// their own, so a completed goal counts for the week it was last updated in.
+export const entriesForWeek = (
+  birth: Date,
+  index: number,
+  journal: { reflections: Reflection[]; goals: Goal[]; notes: WeekNote[] }
+): WeekEntries => {
+  const start = toDateString(weekStart(birth, index));
+  return {
+    reflections: journal.reflections
+      .filter((reflection) => inWeek(birth, index, reflection.date))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    goalsCreated: journal.goals.filter((goal) => inWeek(birth, index, goal.created_at)),
+    goalsCompleted: journal.goals.filter(
+      (goal) => goal.status === 'completed' && inWeek(birth, index, goal.updated_at)
+    ),
+    note: journal.notes.find((note) => note.week_start === start) ?? null,
+  };
+};
+
+export const isEmptyWeek = (entries: WeekEntries) =>
+  !entries.note &&
+  entries.reflections.length === 0 &&
+  entries.goalsCreated.length === 0 &&
+  entries.goalsCompleted.length === 0;
+
+export const getWeekNotes = (profileId: string) => store.getWeekNotes(profileId);
+
+// Saves the note for the week starting on `weekStartDate`; blank text removes it.
+export const saveWeekNote = async (profileId: string, weekStartDate: string, text: string): Promise<WeekNote | null> => {
+  if (!parseLocalDate(weekStartDate)) throw new Error(`Invalid week start: ${weekStartDate}`);
+
+  const others = (await store.getWeekNotes(profileId)).filter((note) => note.week_start !== weekStartDate);
+  const trimmed = text.trim();
+  const note: WeekNote | null = trimmed
+    ? { week_start: weekStartDate, text: trimmed, updated_at: new Date().toISOString() }
+    : null;
+  await store.setWeekNotes(profileId, note ? [...others, note] : others);
+  return note;
+};
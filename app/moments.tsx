@@ -0,0 +1,440 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useSession } from './lib/session';
+import { StoreLockedError } from './lib/store';
+import { MOMENT_PERIODS, MomentFraming } from './lib/models';
+import {
+  countMoments,
+  describeRate,
+  framingFromPreset,
+  FramingInput,
+  getFramings,
+  MOMENT_PRESETS,
+  newFraming,
+  saveFramings,
+  validateFraming,
+} from './lib/moments';
+
+interface Form {
+  // Set when editing an existing framing.
+  id?: string;
+  title: string;
+  unit: string;
+  rate: string;
+  period: MomentFraming['period'];
+  years: string;
+}
+
+const EMPTY_FORM: Form = { title: '', unit: '', rate: '1', period: 'year', years: '' };
+
+export default function MomentsScreen() {
+  const { profileId, stats } = useSession();
+  const [framings, setFramings] = useState<MomentFraming[]>([]);
+  const [form, setForm] = useState<Form | null>(null);
+
+  useEffect(() => {
+    if (!profileId) return;
+    getFramings(profileId)
+      .then(setFramings)
+      .catch((error) => {
+        // Relocked in the meantime: the lock screen takes over, nothing is shown here.
+        if (!(error instanceof StoreLockedError)) console.error('Error loading framings:', error);
+      });
+  }, [profileId]);
+
+  const persist = async (next: MomentFraming[]) => {
+    if (!profileId) return;
+    const previous = framings;
+    setFramings(next);
+    try {
+      await saveFramings(profileId, next);
+    } catch (error) {
+      setFramings(previous);
+      if (error instanceof StoreLockedError) {
+        Alert.alert('Locked', 'Unlock the app with your passcode to save your changes.');
+        return;
+      }
+      console.error('Error saving framings:', error);
+      Alert.alert('Error', 'Failed to save your changes. Please try again.');
+    }
+  };
+
+  const startEdit = (framing: MomentFraming) =>
+    setForm({
+      id: framing.id,
+      title: framing.title,
+      unit: framing.unit,
+      rate: String(framing.rate),
+      period: framing.period,
+      years: framing.years === null ? '' : String(framing.years),
+    });
+
+  const updateForm = (changes: Partial<Form>) => setForm((current) => (current ? { ...current, ...changes } : current));
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    const input: FramingInput = {
+      title: form.title.trim(),
+      unit: form.unit.trim(),
+      rate: Number(form.rate.replace(',', '.')),
+      period: form.period,
+      years: form.years.trim() ? Number(form.years.replace(',', '.')) : null,
+    };
+    const invalid = validateFraming(input);
+    if (invalid) {
+      Alert.alert('Check This Framing', invalid);
+      return;
+    }
+
+    await persist(
+      form.id
+        ? framings.map((framing) => (framing.id === form.id ? { ...framing, ...input } : framing))
+        : [...framings, newFraming(input)]
+    );
+    setForm(null);
+  };
+
+  const confirmDelete = () => {
+    const id = form?.id;
+    if (!id) return;
+
+    Alert.alert('Remove Framing?', `"${form.title}" will no longer be counted.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          await persist(framings.filter((framing) => framing.id !== id));
+          setForm(null);
+        },
+      },
+    ]);
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...framings];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    persist(next);
+  };
+
+  const togglePinned = (id: string) =>
+    persist(framings.map((framing) => (framing.id === id ? { ...framing, pinned: !framing.pinned } : framing)));
+
+  const addPreset = (key: string) => persist([...framings, framingFromPreset(key)]);
+
+  if (form) {
+    return (
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          <View style={styles.inputContainer}>
+            <Text style={styles.inputLabel}>Name</Text>
+            <TextInput
+              style={styles.textInput}
+              value={form.title}
+              onChangeText={(title) => updateForm({ title })}
+              placeholder="e.g., Dinners with old friends"
+              placeholderTextColor="#666"
+            />
+          </View>
+
+          <View style={styles.inputContainer}>
+            <Text style={styles.inputLabel}>Counted As</Text>
+            <TextInput
+              style={styles.textInput}
+              value={form.unit}
+              onChangeText={(unit) => updateForm({ unit })}
+              placeholder="e.g., dinners"
+              placeholderTextColor="#666"
+              autoCapitalize="none"
+            />
+          </View>
+
+          <View style={styles.inputContainer}>
+            <Text style={styles.inputLabel}>How Often</Text>
+            <View style={styles.rateRow}>
+              <TextInput
+                style={[styles.textInput, styles.rateInput]}
+                value={form.rate}
+                onChangeText={(rate) => updateForm({ rate })}
+                keyboardType="decimal-pad"
+              />
+              <Text style={styles.rateText}>a</Text>
+              {MOMENT_PERIODS.map((period) => (
+                <TouchableOpacity
+                  key={period}
+                  style={[styles.chip, form.period === period && styles.chipActive]}
+                  onPress={() => updateForm({ period })}
+                >
+                  <Text style={[styles.chipText, form.period === period && styles.chipTextActive]}>{period}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.inputContainer}>
+            <Text style={styles.inputLabel}>For How Many More Years</Text>
+            <TextInput
+              style={styles.textInput}
+              value={form.years}
+              onChangeText={(years) => updateForm({ years })}
+              placeholder="The rest of your life"
+              placeholderTextColor="#666"
+              keyboardType="decimal-pad"
+            />
+            <Text style={styles.inputHelper}>
+              Set this when something ends sooner than you do, like the years your parents have left.
+            </Text>
+          </View>
+
+          <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+            <Text style={styles.saveButtonText}>Save</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.cancelButton} onPress={() => setForm(null)}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+
+          {form.id && (
+            <TouchableOpacity style={styles.deleteButton} onPress={confirmDelete}>
+              <Ionicons name="trash-outline" size={18} color="#FF6B6B" />
+              <Text style={styles.deleteText}>Remove</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    );
+  }
+
+  const unusedPresets = MOMENT_PRESETS.filter(
+    (preset) => !framings.some((framing) => framing.title === preset.title)
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <Text style={styles.sectionDescription}>
+          Turn the time you have left into things you can picture. Pinned ones are shown on the home
+          tab, in this order.
+        </Text>
+
+        {framings.map((framing, index) => (
+          <View key={framing.id} style={styles.framingCard}>
+            <TouchableOpacity onPress={() => togglePinned(framing.id)} style={styles.iconButton}>
+              <Ionicons name={framing.pinned ? 'pin' : 'pin-outline'} size={20} color={framing.pinned ? '#D4AF37' : '#666'} />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.framingText} onPress={() => startEdit(framing)}>
+              <Text style={styles.framingTitle}>{framing.title}</Text>
+              <Text style={styles.framingDetail}>
+                {stats ? `${countMoments(framing, stats).toLocaleString()} ${framing.unit} · ` : ''}
+                {describeRate(framing)}
+              </Text>
+            </TouchableOpacity>
+            <View style={styles.reorder}>
+              <TouchableOpacity onPress={() => move(index, -1)} disabled={index === 0} style={styles.iconButton}>
+                <Ionicons name="chevron-up" size={18} color={index === 0 ? '#333' : '#888'} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => move(index, 1)}
+                disabled={index === framings.length - 1}
+                style={styles.iconButton}
+              >
+                <Ionicons name="chevron-down" size={18} color={index === framings.length - 1 ? '#333' : '#888'} />
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))}
+
+        <Text style={styles.groupTitle}>Add</Text>
+        <View style={styles.presets}>
+          {unusedPresets.map((preset) => (
+            <TouchableOpacity key={preset.key} style={styles.chip} onPress={() => addPreset(preset.key)}>
+              <Text style={styles.chipText}>{preset.title}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <TouchableOpacity style={styles.addButton} onPress={() => setForm(EMPTY_FORM)}>
+          <Ionicons name="add" size={20} color="#D4AF37" />
+          <Text style={styles.addButtonText}>Create Your Own</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0C0C0C',
+  },
+  scrollView: {
+    flex: 1,
+    padding: 20,
+  },
+  sectionDescription: {
+    color: '#888',
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  framingCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1A1A1A',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  iconButton: {
+    padding: 6,
+  },
+  framingText: {
+    flex: 1,
+    marginHorizontal: 8,
+  },
+  framingTitle: {
+    color: '#FFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  framingDetail: {
+    color: '#888',
+    fontSize: 13,
+  },
+  reorder: {
+    alignItems: 'center',
+  },
+  groupTitle: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  presets: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  chipActive: {
+    borderColor: '#D4AF37',
+    backgroundColor: '#2A2410',
+  },
+  chipText: {
+    color: '#CCCCCC',
+    fontSize: 14,
+  },
+  chipTextActive: {
+    color: '#D4AF37',
+    fontWeight: 'bold',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    borderRadius: 8,
+    paddingVertical: 16,
+    marginBottom: 40,
+    borderWidth: 1,
+    borderColor: '#D4AF37',
+    borderStyle: 'dashed',
+  },
+  addButtonText: {
+    color: '#D4AF37',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  inputContainer: {
+    marginBottom: 20,
+  },
+  inputLabel: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  textInput: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 8,
+    padding: 16,
+    color: '#FFFFFF',
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  inputHelper: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 8,
+  },
+  rateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  rateInput: {
+    width: 80,
+    textAlign: 'center',
+  },
+  rateText: {
+    color: '#CCCCCC',
+    fontSize: 16,
+  },
+  saveButton: {
+    backgroundColor: '#D4AF37',
+    borderRadius: 8,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#0C0C0C',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  cancelButton: {
+    alignItems: 'center',
+    padding: 16,
+  },
+  cancelText: {
+    color: '#8B7355',
+    fontSize: 16,
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 16,
+    marginBottom: 40,
+  },
+  deleteText: {
+    color: '#FF6B6B',
+    fontSize: 16,
+  },
+});
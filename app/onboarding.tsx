@@ -1,131 +1,122 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   TouchableOpacity,
-  TextInput,
   ScrollView,
   Alert,
+  ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import * as Location from 'expo-location';
-
-const BACKEND_URL = 'https://mortality-app.preview.emergentagent.com';
-
-// Country life expectancy data based on 2025 WHO statistics
-const LIFE_EXPECTANCY_BY_COUNTRY: { [key: string]: number } = {
-  'US': 79, 'CA': 82, 'GB': 81, 'DE': 81, 'FR': 82, 'IT': 83, 'ES': 83,
-  'JP': 85, 'KR': 85, 'AU': 84, 'NZ': 82, 'CH': 84, 'SE': 83, 'NO': 82,
-  'DK': 81, 'NL': 82, 'BE': 82, 'AT': 82, 'FI': 81, 'IE': 82, 'IN': 70,
-  'CN': 77, 'BR': 76, 'RU': 73, 'MX': 75, 'AR': 77, 'CL': 80, 'ZA': 64,
-  'DEFAULT': 78
-};
+import { api } from './lib/api';
+import { useSession } from './lib/session';
+import { clearDraft, loadDraft, OnboardingDraft, resolveLifeExpectancy, saveDraft } from './lib/onboarding';
+import { ONBOARDING_STEPS } from './components/OnboardingSteps';
 
 export default function OnboardingScreen() {
-  const [currentStep, setCurrentStep] = useState(1);
-  const [birthDate, setBirthDate] = useState('');
-  const [lifeExpectancy, setLifeExpectancy] = useState('');
-  const [estimatedLifeExpectancy, setEstimatedLifeExpectancy] = useState(78);
-  const [country, setCountry] = useState('');
+  const { signIn, profiles } = useSession();
+  const [draft, setDraft] = useState<OnboardingDraft | null>(null);
   const [loading, setLoading] = useState(false);
-  const [useCustomExpectancy, setUseCustomExpectancy] = useState(false);
 
   useEffect(() => {
-    detectCountry();
+    loadDraft()
+      .then(setDraft)
+      .catch((error) => {
+        console.error('Error loading onboarding draft:', error);
+        setDraft(null);
+      });
   }, []);
 
-  const detectCountry = async () => {
-    try {
-      let { status } = await Location.requestForegroundPermissionsAsync();
-      
-      if (status === 'granted') {
-        let location = await Location.getCurrentPositionAsync({});
-        let geocode = await Location.reverseGeocodeAsync({
-          latitude: location.coords.latitude,
-          longitude: location.coords.longitude,
-        });
-        
-        if (geocode.length > 0) {
-          const countryCode = geocode[0].isoCountryCode || 'DEFAULT';
-          setCountry(countryCode);
-          const expectedAge = LIFE_EXPECTANCY_BY_COUNTRY[countryCode] || LIFE_EXPECTANCY_BY_COUNTRY['DEFAULT'];
-          setEstimatedLifeExpectancy(expectedAge);
-        }
-      } else {
-        setEstimatedLifeExpectancy(LIFE_EXPECTANCY_BY_COUNTRY['DEFAULT']);
-      }
-    } catch (error) {
-      console.error('Error detecting country:', error);
-      setEstimatedLifeExpectancy(LIFE_EXPECTANCY_BY_COUNTRY['DEFAULT']);
+  // Every change is written straight away, so setup resumes where it was left.
+  useEffect(() => {
+    if (draft) {
+      saveDraft(draft).catch((error) => console.error('Error saving onboarding draft:', error));
     }
-  };
+  }, [draft]);
 
-  const validateBirthDate = (dateString: string): boolean => {
-    if (!dateString) return false;
-    
-    const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-    if (!dateRegex.test(dateString)) return false;
-    
-    const date = new Date(dateString);
-    const now = new Date();
-    
-    return date.getTime() === new Date(dateString).getTime() && date <= now;
-  };
+  if (!draft) {
+    return (
+      <SafeAreaView style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#D4AF37" />
+      </SafeAreaView>
+    );
+  }
+
+  const currentIndex = Math.max(0, ONBOARDING_STEPS.findIndex((step) => step.id === draft.stepId));
+  const step = ONBOARDING_STEPS[currentIndex];
+  const isLastStep = currentIndex === ONBOARDING_STEPS.length - 1;
+
+  const update = (changes: Partial<OnboardingDraft>) =>
+    setDraft((current) => (current ? { ...current, ...changes } : current));
+
+  const goTo = (index: number) => update({ stepId: ONBOARDING_STEPS[index].id });
 
   const handleNext = () => {
-    if (currentStep === 1) {
-      if (!validateBirthDate(birthDate)) {
-        Alert.alert('Invalid Date', 'Please enter a valid birth date in YYYY-MM-DD format (e.g., 1990-12-25)');
-        return;
-      }
-      setCurrentStep(2);
-    } else if (currentStep === 2) {
-      handleComplete();
+    const problem = step.validate?.(draft);
+    if (problem) {
+      Alert.alert('Almost There', problem);
+      return;
+    }
+
+    const skipped = draft.skipped.filter((id) => id !== step.id);
+    if (isLastStep) {
+      handleComplete({ ...draft, skipped });
+    } else {
+      update({ skipped, stepId: ONBOARDING_STEPS[currentIndex + 1].id });
     }
   };
 
-  const handleComplete = async () => {
+  const handleSkip = () => {
+    const skipped = draft.skipped.includes(step.id) ? draft.skipped : [...draft.skipped, step.id];
+    if (isLastStep) {
+      handleComplete({ ...draft, skipped });
+    } else {
+      update({ skipped, stepId: ONBOARDING_STEPS[currentIndex + 1].id });
+    }
+  };
+
+  const handleComplete = async (finalDraft: OnboardingDraft) => {
+    // Steps can be revisited and changed after they were passed, so check them all again.
+    const invalid = ONBOARDING_STEPS.findIndex(
+      (s) => !finalDraft.skipped.includes(s.id) && s.validate?.(finalDraft)
+    );
+    if (invalid !== -1) {
+      Alert.alert('Almost There', ONBOARDING_STEPS[invalid].validate!(finalDraft)!);
+      goTo(invalid);
+      return;
+    }
+
+    setLoading(true);
     try {
-      setLoading(true);
-      
-      const finalLifeExpectancy = useCustomExpectancy && lifeExpectancy 
-        ? parseInt(lifeExpectancy) 
-        : estimatedLifeExpectancy;
+      const result = await api.createProfile({
+        birth_date: finalDraft.birthDate ?? '',
+        life_expectancy: resolveLifeExpectancy(finalDraft),
+        name: finalDraft.name.trim() || 'User',
+        country: finalDraft.country,
+      });
 
-      if (finalLifeExpectancy < 20 || finalLifeExpectancy > 120) {
-        Alert.alert('Invalid Life Expectancy', 'Please enter a life expectancy between 20 and 120 years.');
-        setLoading(false);
+      if (!result.ok) {
+        Alert.alert('Error', `Failed to create profile: ${result.error.message}`);
         return;
       }
 
-      // Create user profile
-      const response = await fetch(`${BACKEND_URL}/api/profile`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          birth_date: birthDate,
-          life_expectancy: finalLifeExpectancy,
-          name: 'User',
-          country: country,
-        }),
-      });
-
-      if (response.ok) {
-        const profile = await response.json();
-        await AsyncStorage.setItem('userProfileId', profile.id);
-        await AsyncStorage.setItem('onboardingCompleted', 'true');
-        
-        router.replace('/(tabs)');
-      } else {
-        const errorText = await response.text();
-        Alert.alert('Error', `Failed to create profile: ${errorText}`);
+      await signIn(result.data);
+      for (const s of ONBOARDING_STEPS) {
+        if (!s.complete || finalDraft.skipped.includes(s.id)) continue;
+        try {
+          await s.complete(result.data, finalDraft);
+        } catch (error) {
+          // The profile exists by now; an extra that failed isn't worth stopping for.
+          console.error(`Error completing onboarding step ${s.id}:`, error);
+        }
       }
+      await clearDraft();
+
+      if (router.canDismiss()) router.dismissAll();
+      router.replace('/(tabs)');
     } catch (error) {
       console.error('Error completing onboarding:', error);
       Alert.alert('Error', 'Failed to complete setup. Please try again.');
@@ -134,130 +125,86 @@ export default function OnboardingScreen() {
     }
   };
 
-  const renderStep1 = () => (
-    <View style={styles.stepContainer}>
-      <Ionicons name="calendar-outline" size={64} color="#D4AF37" style={styles.stepIcon} />
-      <Text style={styles.stepTitle}>When were you born?</Text>
-      <Text style={styles.stepDescription}>
-        We need your birth date to calculate your life statistics and create your personal mortality awareness.
-      </Text>
-      
-      <View style={styles.inputContainer}>
-        <Text style={styles.inputLabel}>Birth Date</Text>
-        <TextInput
-          style={styles.textInput}
-          value={birthDate}
-          onChangeText={setBirthDate}
-          placeholder="YYYY-MM-DD (e.g., 1990-12-25)"
-          placeholderTextColor="#666"
-          keyboardType="numeric"
-          maxLength={10}
-        />
-        <Text style={styles.inputHelper}>Enter in YYYY-MM-DD format</Text>
-      </View>
-    </View>
-  );
+  // Leaving "Add Profile" halfway means starting over next time.
+  const handleClose = async () => {
+    await clearDraft().catch((error) => console.error('Error clearing onboarding draft:', error));
+    router.back();
+  };
 
-  const renderStep2 = () => (
-    <View style={styles.stepContainer}>
-      <Ionicons name="trending-up-outline" size={64} color="#D4AF37" style={styles.stepIcon} />
-      <Text style={styles.stepTitle}>Life Expectancy</Text>
-      <Text style={styles.stepDescription}>
-        Based on your location{country && ` (${country})`}, we estimate your life expectancy at {estimatedLifeExpectancy} years.
-      </Text>
-      
-      <View style={styles.expectancyContainer}>
-        <TouchableOpacity
-          style={[styles.expectancyOption, !useCustomExpectancy && styles.expectancyOptionSelected]}
-          onPress={() => setUseCustomExpectancy(false)}
-        >
-          <Ionicons 
-            name={!useCustomExpectancy ? "radio-button-on" : "radio-button-off"} 
-            size={24} 
-            color="#D4AF37" 
-          />
-          <View style={styles.expectancyText}>
-            <Text style={styles.expectancyTitle}>Use Estimated ({estimatedLifeExpectancy} years)</Text>
-            <Text style={styles.expectancySubtitle}>Based on your country's average</Text>
-          </View>
-        </TouchableOpacity>
-        
-        <TouchableOpacity
-          style={[styles.expectancyOption, useCustomExpectancy && styles.expectancyOptionSelected]}
-          onPress={() => setUseCustomExpectancy(true)}
-        >
-          <Ionicons 
-            name={useCustomExpectancy ? "radio-button-on" : "radio-button-off"} 
-            size={24} 
-            color="#D4AF37" 
-          />
-          <View style={styles.expectancyText}>
-            <Text style={styles.expectancyTitle}>Set Custom Age</Text>
-            <Text style={styles.expectancySubtitle}>Enter your own estimate</Text>
-          </View>
-        </TouchableOpacity>
-      </View>
-      
-      {useCustomExpectancy && (
-        <View style={styles.inputContainer}>
-          <TextInput
-            style={styles.textInput}
-            value={lifeExpectancy}
-            onChangeText={setLifeExpectancy}
-            placeholder="e.g., 85"
-            placeholderTextColor="#666"
-            keyboardType="numeric"
-            maxLength={3}
-          />
-          <Text style={styles.inputHelper}>Enter age between 20-120 years</Text>
-        </View>
-      )}
-    </View>
-  );
+  const description = typeof step.description === 'function' ? step.description(draft) : step.description;
 
   return (
     <SafeAreaView style={styles.container}>
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
         <View style={styles.header}>
+          {profiles.length > 0 && (
+            <TouchableOpacity style={styles.closeButton} onPress={handleClose}>
+              <Ionicons name="close" size={28} color="#888" />
+            </TouchableOpacity>
+          )}
           <Text style={styles.headerTitle}>Momento Mori</Text>
           <Text style={styles.headerSubtitle}>Life Awareness Setup</Text>
           
           <View style={styles.progressContainer}>
-            <View style={[styles.progressDot, currentStep >= 1 && styles.progressDotActive]} />
-            <View style={[styles.progressLine, currentStep >= 2 && styles.progressLineActive]} />
-            <View style={[styles.progressDot, currentStep >= 2 && styles.progressDotActive]} />
+            {ONBOARDING_STEPS.map((s, index) => (
+              <React.Fragment key={s.id}>
+                {index > 0 && <View style={[styles.progressLine, currentIndex >= index && styles.progressLineActive]} />}
+                <View
+                  style={[
+                    styles.progressDot,
+                    currentIndex >= index && styles.progressDotActive,
+                    s.optional && styles.progressDotOptional,
+                  ]}
+                />
+              </React.Fragment>
+            ))}
           </View>
         </View>
         
-        {currentStep === 1 ? renderStep1() : renderStep2()}
+        <View style={styles.stepContainer}>
+          <Ionicons name={step.icon} size={64} color="#D4AF37" style={styles.stepIcon} />
+          <Text style={styles.stepTitle}>{step.title}</Text>
+          <Text style={styles.stepDescription}>{description}</Text>
+          <step.Body draft={draft} update={update} />
+        </View>
         
         <View style={styles.navigationContainer}>
-          {currentStep > 1 && (
+          {currentIndex > 0 ? (
             <TouchableOpacity
               style={styles.backButton}
-              onPress={() => setCurrentStep(currentStep - 1)}
+              onPress={() => goTo(currentIndex - 1)}
+              disabled={loading}
             >
               <Ionicons name="chevron-back" size={24} color="#D4AF37" />
               <Text style={styles.backButtonText}>Back</Text>
             </TouchableOpacity>
+          ) : (
+            <View />
           )}
-          
-          <TouchableOpacity
-            style={[styles.nextButton, loading && styles.nextButtonDisabled]}
-            onPress={handleNext}
-            disabled={loading}
-          >
-            {loading ? (
-              <Text style={styles.nextButtonText}>Setting up...</Text>
-            ) : (
-              <>
-                <Text style={styles.nextButtonText}>
-                  {currentStep === 2 ? 'Complete Setup' : 'Next'}
-                </Text>
-                <Ionicons name="chevron-forward" size={24} color="#000" />
-              </>
+
+          <View style={styles.forwardButtons}>
+            {step.optional && (
+              <TouchableOpacity style={styles.skipButton} onPress={handleSkip} disabled={loading}>
+                <Text style={styles.skipButtonText}>Skip</Text>
+              </TouchableOpacity>
             )}
-          </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.nextButton, loading && styles.nextButtonDisabled]}
+              onPress={handleNext}
+              disabled={loading}
+            >
+              {loading ? (
+                <Text style={styles.nextButtonText}>Setting up...</Text>
+              ) : (
+                <>
+                  <Text style={styles.nextButtonText}>
+                    {isLastStep ? 'Complete Setup' : 'Next'}
+                  </Text>
+                  <Ionicons name="chevron-forward" size={24} color="#000" />
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
         </View>
       </ScrollView>
     </SafeAreaView>
@@ -269,6 +216,10 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#0C0C0C',
   },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   scrollView: {
     flex: 1,
   },
@@ -276,6 +227,12 @@ const styles = StyleSheet.create({
     padding: 32,
     alignItems: 'center',
   },
+  closeButton: {
+    position: 'absolute',
+    top: 16,
+    left: 16,
+    padding: 8,
+  },
   headerTitle: {
     color: '#D4AF37',
     fontSize: 32,
@@ -300,6 +257,11 @@ const styles = StyleSheet.create({
   progressDotActive: {
     backgroundColor: '#D4AF37',
   },
+  progressDotOptional: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
   progressLine: {
     width: 40,
     height: 2,
@@ -330,68 +292,22 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 32,
   },
-  inputContainer: {
-    width: '100%',
-    marginBottom: 24,
-  },
-  inputLabel: {
-    color: '#FFFFFF',
-    fontSize: 16,
-    fontWeight: 'bold',
-    marginBottom: 8,
-  },
-  textInput: {
-    backgroundColor: '#1A1A1A',
-    color: '#FFFFFF',
-    fontSize: 18,
-    padding: 16,
-    borderRadius: 12,
-    borderWidth: 1,
-    borderColor: '#2A2A2A',
-    textAlign: 'center',
-  },
-  inputHelper: {
-    color: '#CCCCCC',
-    fontSize: 14,
-    textAlign: 'center',
-    marginTop: 8,
-  },
-  expectancyContainer: {
-    width: '100%',
-    marginBottom: 24,
-  },
-  expectancyOption: {
+  navigationContainer: {
     flexDirection: 'row',
+    justifyContent: 'space-between',
     alignItems: 'center',
-    backgroundColor: '#1A1A1A',
-    padding: 20,
-    borderRadius: 12,
-    marginBottom: 16,
-    borderWidth: 1,
-    borderColor: '#2A2A2A',
+    padding: 32,
   },
-  expectancyOptionSelected: {
-    borderColor: '#D4AF37',
-    backgroundColor: '#1A1A1A',
+  forwardButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
   },
-  expectancyText: {
-    marginLeft: 16,
+  skipButton: {
+    padding: 16,
   },
-  expectancyTitle: {
-    color: '#FFFFFF',
+  skipButtonText: {
+    color: '#888',
     fontSize: 16,
-    fontWeight: 'bold',
-  },
-  expectancySubtitle: {
-    color: '#CCCCCC',
-    fontSize: 14,
-    marginTop: 4,
-  },
-  navigationContainer: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    padding: 32,
   },
   backButton: {
     flexDirection: 'row',
@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { useSession } from './lib/session';
+import { profileHasPasscode } from './lib/lock';
+
+export default function ProfilesScreen() {
+  const { profileId, profiles, switchProfile } = useSession();
+  const [locked, setLocked] = useState<Set<string>>(new Set());
+  const [switching, setSwitching] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all(profiles.map(async (p) => ((await profileHasPasscode(p.id)) ? p.id : null)))
+      .then((ids) => setLocked(new Set(ids.filter((id): id is string => id !== null))))
+      .catch((error) => console.error('Error reading passcode settings:', error));
+  }, [profiles]);
+
+  const handleSwitch = async (nextId: string) => {
+    if (nextId === profileId) {
+      router.back();
+      return;
+    }
+
+    setSwitching(nextId);
+    try {
+      await switchProfile(nextId);
+      // Through the gate again: the new profile may have its own passcode.
+      if (router.canDismiss()) router.dismissAll();
+      router.replace('/');
+    } catch (error) {
+      console.error('Error switching profile:', error);
+      Alert.alert('Error', 'Failed to switch profile. Please try again.');
+    } finally {
+      setSwitching(null);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <Text style={styles.sectionDescription}>
+          Everyone sharing this device can have their own profile, with their own goals,
+          reflections and, if they like, their own passcode.
+        </Text>
+
+        {profiles.map((p) => (
+          <TouchableOpacity
+            key={p.id}
+            style={[styles.profileCard, p.id === profileId && styles.profileCardActive]}
+            onPress={() => handleSwitch(p.id)}
+            disabled={switching !== null}
+          >
+            <View style={styles.avatar}>
+              <Text style={styles.avatarText}>{p.name.charAt(0).toUpperCase()}</Text>
+            </View>
+            <View style={styles.profileText}>
+              <Text style={styles.profileName}>{p.name}</Text>
+              <Text style={styles.profileDetail}>
+                Born {p.birth_date}
+                {p.id === profileId ? ' · Active' : ''}
+                {switching === p.id ? ' · Switching...' : ''}
+              </Text>
+            </View>
+            {locked.has(p.id) && <Ionicons name="lock-closed" size={18} color="#888" />}
+          </TouchableOpacity>
+        ))}
+
+        <TouchableOpacity style={styles.addButton} onPress={() => router.push('/onboarding')}>
+          <Ionicons name="person-add-outline" size={20} color="#D4AF37" />
+          <Text style={styles.addButtonText}>Add Profile</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0C0C0C',
+  },
+  scrollView: {
+    flex: 1,
+    padding: 20,
+  },
+  sectionDescription: {
+    color: '#888',
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  profileCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1A1A1A',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  profileCardActive: {
+    borderColor: '#D4AF37',
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#2A2A2A',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarText: {
+    color: '#D4AF37',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  profileText: {
+    flex: 1,
+    marginHorizontal: 16,
+  },
+  profileName: {
+    color: '#FFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  profileDetail: {
+    color: '#888',
+    fontSize: 13,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    borderRadius: 8,
+    paddingVertical: 16,
+    marginBottom: 40,
+    borderWidth: 1,
+    borderColor: '#D4AF37',
+    borderStyle: 'dashed',
+  },
+  addButtonText: {
+    color: '#D4AF37',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,322 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useSession } from './lib/session';
+import { Quote, QuoteLibrary } from './lib/models';
+import { MANTRA_CATEGORY, QUOTE_CATEGORIES } from './lib/quotes';
+import {
+  addMantra,
+  findQuote,
+  getQuoteLibrary,
+  removeMantra,
+  setQuoteCategories,
+  toggleFavorite,
+} from './lib/quoteLibrary';
+import { formatLocalDate } from './lib/dates';
+
+type Tab = 'history' | 'favorites' | 'mantras';
+
+const TABS: { value: Tab; label: string }[] = [
+  { value: 'history', label: 'History' },
+  { value: 'favorites', label: 'Favorites' },
+  { value: 'mantras', label: 'Your Own' },
+];
+
+export default function QuotesScreen() {
+  const { profileId, profile } = useSession();
+  const [library, setLibrary] = useState<QuoteLibrary | null>(null);
+  const [tab, setTab] = useState<Tab>('history');
+  const [mantra, setMantra] = useState('');
+
+  useEffect(() => {
+    if (!profileId) return;
+    getQuoteLibrary(profileId)
+      .then(setLibrary)
+      .catch((error) => console.error('Error loading quote library:', error));
+  }, [profileId]);
+
+  // Every change is saved straight away; the screen shows what was written.
+  const apply = async (change: Promise<QuoteLibrary>) => {
+    try {
+      setLibrary(await change);
+    } catch (error) {
+      console.error('Error saving quote library:', error);
+      Alert.alert('Error', 'Failed to save your change. Please try again.');
+    }
+  };
+
+  if (!profileId || !library) return <SafeAreaView style={styles.container} />;
+
+  const toggleCategory = (category: string) =>
+    apply(
+      setQuoteCategories(
+        profileId,
+        library.categories.includes(category)
+          ? library.categories.filter((value) => value !== category)
+          : [...library.categories, category]
+      )
+    );
+
+  const handleAddMantra = async () => {
+    if (!mantra.trim()) return;
+    await apply(addMantra(profileId, mantra, profile?.name || 'You'));
+    setMantra('');
+  };
+
+  const confirmRemoveMantra = (quote: Quote) =>
+    Alert.alert('Remove From Rotation?', `"${quote.text}"`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => apply(removeMantra(profileId, quote.id)) },
+    ]);
+
+  const renderQuote = (quote: Quote, key: string, shownOn?: string) => (
+    <View key={key} style={styles.quoteCard}>
+      {shownOn && (
+        <Text style={styles.quoteDate}>
+          {formatLocalDate(shownOn, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}
+        </Text>
+      )}
+      <Text style={styles.quoteText}>&quot;{quote.text}&quot;</Text>
+      <View style={styles.quoteFooter}>
+        <Text style={styles.quoteAuthor}>— {quote.author}</Text>
+        {quote.category === MANTRA_CATEGORY && (
+          <TouchableOpacity onPress={() => confirmRemoveMantra(quote)} style={styles.iconButton}>
+            <Ionicons name="trash-outline" size={18} color="#888" />
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity onPress={() => apply(toggleFavorite(profileId, quote.id))} style={styles.iconButton}>
+          <Ionicons
+            name={library.favorites.includes(quote.id) ? 'heart' : 'heart-outline'}
+            size={18}
+            color="#D4AF37"
+          />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderTab = () => {
+    if (tab === 'history') {
+      const shown = library.history.flatMap((entry, index) => {
+        const quote = findQuote(library, entry.quote_id);
+        return quote ? [renderQuote(quote, `${entry.date}-${index}`, entry.date)] : [];
+      });
+      return shown.length > 0 ? shown : <Text style={styles.emptyText}>Quotes you&apos;ve seen will show up here.</Text>;
+    }
+
+    if (tab === 'favorites') {
+      const favorites = library.favorites.flatMap((id) => {
+        const quote = findQuote(library, id);
+        return quote ? [renderQuote(quote, id)] : [];
+      });
+      return favorites.length > 0 ? (
+        favorites
+      ) : (
+        <Text style={styles.emptyText}>Tap the heart on a quote to keep it here.</Text>
+      );
+    }
+
+    return (
+      <>
+        <TextInput
+          style={styles.mantraInput}
+          value={mantra}
+          onChangeText={setMantra}
+          placeholder="A line you want to be reminded of"
+          placeholderTextColor="#666"
+          multiline
+          textAlignVertical="top"
+        />
+        <TouchableOpacity
+          style={[styles.addButton, !mantra.trim() && styles.addButtonDisabled]}
+          onPress={handleAddMantra}
+          disabled={!mantra.trim()}
+        >
+          <Text style={styles.addButtonText}>Add to Rotation</Text>
+        </TouchableOpacity>
+        {library.mantras.map((quote) => renderQuote(quote, quote.id))}
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        <Text style={styles.groupTitle}>In Rotation</Text>
+        <View style={styles.chips}>
+          {QUOTE_CATEGORIES.map((category) => {
+            const active = library.categories.includes(category.value);
+            return (
+              <TouchableOpacity
+                key={category.value}
+                style={[styles.chip, active && styles.chipActive]}
+                onPress={() => toggleCategory(category.value)}
+              >
+                <Text style={[styles.chipText, active && styles.chipTextActive]}>{category.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <View style={styles.tabContainer}>
+          {TABS.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.tab, tab === option.value && styles.activeTab]}
+              onPress={() => setTab(option.value)}
+            >
+              <Text style={[styles.tabText, tab === option.value && styles.activeTabText]}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {renderTab()}
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0C0C0C',
+  },
+  scrollView: {
+    flex: 1,
+    padding: 20,
+  },
+  groupTitle: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 20,
+  },
+  chip: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  chipActive: {
+    borderColor: '#D4AF37',
+    backgroundColor: '#2A2410',
+  },
+  chipText: {
+    color: '#CCCCCC',
+    fontSize: 14,
+  },
+  chipTextActive: {
+    color: '#D4AF37',
+    fontWeight: 'bold',
+  },
+  tabContainer: {
+    flexDirection: 'row',
+    backgroundColor: '#1A1A1A',
+    borderRadius: 8,
+    padding: 2,
+    marginBottom: 16,
+  },
+  tab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 6,
+  },
+  activeTab: {
+    backgroundColor: '#2A2A2A',
+  },
+  tabText: {
+    color: '#888',
+    fontSize: 14,
+  },
+  activeTabText: {
+    color: '#D4AF37',
+    fontWeight: 'bold',
+  },
+  quoteCard: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: '#D4AF37',
+  },
+  quoteDate: {
+    color: '#888',
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  quoteText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontStyle: 'italic',
+    lineHeight: 22,
+  },
+  quoteFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  quoteAuthor: {
+    flex: 1,
+    color: '#CCCCCC',
+    fontSize: 13,
+  },
+  iconButton: {
+    padding: 4,
+    marginLeft: 8,
+  },
+  emptyText: {
+    color: '#888',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  mantraInput: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 8,
+    padding: 16,
+    color: '#FFFFFF',
+    fontSize: 16,
+    minHeight: 90,
+    borderWidth: 1,
+    borderColor: '#333',
+    marginBottom: 12,
+  },
+  addButton: {
+    backgroundColor: '#D4AF37',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  addButtonDisabled: {
+    backgroundColor: '#666',
+  },
+  addButtonText: {
+    color: '#0C0C0C',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  bottomSpacer: {
+    height: 40,
+  },
+});
@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { RELOCK_OPTIONS, useLock } from './lib/lock';
+import PasscodePad from './components/PasscodePad';
+
+type Step = 'idle' | 'verify' | 'create' | 'confirm';
+
+export default function SecurityScreen() {
+  const { hasPasscode, relockAfterMs, unlock, setPasscode, removePasscode, setRelockAfter } = useLock();
+  const [step, setStep] = useState<Step>('idle');
+  const [pendingAction, setPendingAction] = useState<'change' | 'remove'>('change');
+  const [newPasscode, setNewPasscode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const startVerify = (action: 'change' | 'remove') => {
+    setPendingAction(action);
+    setError(null);
+    setStep('verify');
+  };
+
+  const startCreate = () => {
+    setError(null);
+    setStep('create');
+  };
+
+  const cancel = () => {
+    setNewPasscode('');
+    setError(null);
+    setStep('idle');
+  };
+
+  const handleVerify = async (passcode: string) => {
+    setBusy(true);
+    try {
+      if (!(await unlock(passcode))) {
+        setError('Wrong passcode. Try again.');
+        return;
+      }
+      setError(null);
+      if (pendingAction === 'change') {
+        setStep('create');
+        return;
+      }
+      await removePasscode();
+      setStep('idle');
+      Alert.alert('Passcode Off', 'Your journal is no longer encrypted on this device.');
+    } catch (removeError) {
+      console.error('Error removing passcode:', removeError);
+      Alert.alert('Error', 'Failed to turn off the passcode. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = (passcode: string) => {
+    setNewPasscode(passcode);
+    setError(null);
+    setStep('confirm');
+  };
+
+  const handleConfirm = async (passcode: string) => {
+    if (passcode !== newPasscode) {
+      setNewPasscode('');
+      setError("Passcodes didn't match. Try again.");
+      setStep('create');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      await setPasscode(passcode);
+      cancel();
+      Alert.alert('Passcode On', 'Your journal is now encrypted on this device.');
+    } catch (saveError) {
+      console.error('Error setting passcode:', saveError);
+      Alert.alert('Error', 'Failed to set the passcode. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRelockAfter = async (ms: number) => {
+    try {
+      await setRelockAfter(ms);
+    } catch (relockError) {
+      console.error('Error saving relock setting:', relockError);
+      Alert.alert('Error', 'Failed to save the setting. Please try again.');
+    }
+  };
+
+  if (step !== 'idle') {
+    const pad = {
+      verify: { title: 'Enter Current Passcode', subtitle: undefined, onComplete: handleVerify },
+      create: { title: 'Choose a Passcode', subtitle: 'Six digits you will remember', onComplete: handleCreate },
+      confirm: { title: 'Confirm Passcode', subtitle: 'Enter it once more', onComplete: handleConfirm },
+    }[step];
+
+    return (
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <View style={styles.padContainer}>
+          <PasscodePad key={step} {...pad} error={error} busy={busy} />
+          <TouchableOpacity style={styles.cancelButton} onPress={cancel} disabled={busy}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <Text style={styles.sectionTitle}>Passcode</Text>
+        <Text style={styles.sectionDescription}>
+          Ask for a passcode before this profile opens. Its reflections and goals are encrypted on
+          this device with a key made from it. Other profiles keep their own settings. If you forget
+          it, the journal has to be downloaded again from the server.
+        </Text>
+
+        {hasPasscode ? (
+          <>
+            <TouchableOpacity style={styles.optionCard} onPress={() => startVerify('change')}>
+              <Ionicons name="key-outline" size={24} color="#D4AF37" />
+              <Text style={styles.optionTitle}>Change Passcode</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.optionCard} onPress={() => startVerify('remove')}>
+              <Ionicons name="lock-open-outline" size={24} color="#FF6B6B" />
+              <Text style={styles.optionTitle}>Turn Off Passcode</Text>
+            </TouchableOpacity>
+
+            <Text style={[styles.sectionTitle, styles.sectionSpacing]}>Lock Again</Text>
+            <Text style={styles.sectionDescription}>How long the app can stay in the background before it locks.</Text>
+            {RELOCK_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option.ms}
+                style={styles.optionCard}
+                onPress={() => handleRelockAfter(option.ms)}
+              >
+                <Text style={styles.optionTitle}>{option.label}</Text>
+                {relockAfterMs === option.ms && <Ionicons name="checkmark" size={22} color="#D4AF37" />}
+              </TouchableOpacity>
+            ))}
+          </>
+        ) : (
+          <TouchableOpacity style={styles.optionCard} onPress={startCreate}>
+            <Ionicons name="lock-closed-outline" size={24} color="#D4AF37" />
+            <Text style={styles.optionTitle}>Turn On Passcode</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0C0C0C',
+  },
+  scrollView: {
+    flex: 1,
+    padding: 20,
+  },
+  padContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    color: '#D4AF37',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  sectionSpacing: {
+    marginTop: 24,
+  },
+  sectionDescription: {
+    color: '#888',
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  optionCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1A1A1A',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+    gap: 16,
+  },
+  optionTitle: {
+    flex: 1,
+    color: '#FFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  cancelButton: {
+    padding: 12,
+  },
+  cancelText: {
+    color: '#8B7355',
+    fontSize: 16,
+  },
+});
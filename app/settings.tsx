@@ -0,0 +1,312 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { api, ApiError } from './lib/api';
+import { useSession } from './lib/session';
+import {
+  MAX_LIFE_EXPECTANCY,
+  MIN_LIFE_EXPECTANCY,
+  validateProfileInput,
+} from './lib/profile';
+import { estimateLifeExpectancy } from './lib/actuarial';
+import { findCountry } from './lib/countries';
+import CountryPicker from './components/CountryPicker';
+import DateInput from './components/DateInput';
+
+const LINKS: { title: string; icon: keyof typeof Ionicons.glyphMap; href: '/profiles' | '/security' | '/backup' }[] = [
+  { title: 'Profiles', icon: 'people-outline', href: '/profiles' },
+  { title: 'Passcode Lock', icon: 'lock-closed-outline', href: '/security' },
+  { title: 'Backup & Export', icon: 'archive-outline', href: '/backup' },
+];
+
+const describeDeleteError = (error: ApiError) => {
+  switch (error.kind) {
+    case 'network':
+    case 'timeout':
+      return `Could not reach the server: ${error.message}. Please try again when online.`;
+    case 'http':
+      return `The server refused to delete your data (HTTP ${error.status}): ${error.message}. Please try again later.`;
+    default:
+      return `The server sent an unexpected response: ${error.message}. Please try again later.`;
+  }
+};
+
+export default function SettingsScreen() {
+  const { profile, updateProfile, deleteAccount } = useSession();
+  const [name, setName] = useState('');
+  const [birthDate, setBirthDate] = useState<string | null>('');
+  const [country, setCountry] = useState('');
+  const [lifeExpectancy, setLifeExpectancy] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    if (profile) {
+      setName(profile.name);
+      setBirthDate(profile.birth_date);
+      setCountry(profile.country ?? '');
+      setLifeExpectancy(String(profile.life_expectancy));
+    }
+  }, [profile]);
+
+  // Sex and lifestyle answers are not stored, so this is the age-conditional base estimate.
+  const estimate = estimateLifeExpectancy({ birthDate: birthDate ?? '', country, sex: 'unspecified' }).expectedAge;
+
+  const hasChanges =
+    profile !== null &&
+    (name.trim() !== profile.name ||
+      birthDate !== profile.birth_date ||
+      country !== (profile.country ?? '') ||
+      lifeExpectancy !== String(profile.life_expectancy));
+
+  const handleSave = async () => {
+    if (!profile) {
+      Alert.alert('Error', 'User profile not found');
+      return;
+    }
+
+    const changes = {
+      name: name.trim(),
+      birth_date: birthDate ?? '',
+      country,
+      life_expectancy: Number(lifeExpectancy),
+    };
+    const invalid = validateProfileInput(changes);
+    if (invalid) {
+      Alert.alert('Invalid Profile', invalid);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await api.updateProfile(profile.id, changes);
+      if (result.ok) {
+        // Stats on the home tab and in the widget derive from the session profile.
+        await updateProfile(result.data);
+        Alert.alert('Saved', 'Your profile has been updated.');
+      } else {
+        Alert.alert('Error', `Failed to save your profile: ${result.error.message}`);
+      }
+    } catch (error) {
+      console.error('Error saving profile:', error);
+      Alert.alert('Error', 'Failed to save your profile. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteData = async () => {
+    setDeleting(true);
+    try {
+      const result = await deleteAccount();
+      if (!result.ok) {
+        Alert.alert('Nothing Was Deleted', describeDeleteError(result.error));
+        return;
+      }
+      // Back through the gate: on to the next profile on this device, or onboarding if none is left.
+      if (router.canDismiss()) router.dismissAll();
+      router.replace('/');
+    } catch (error) {
+      console.error('Error deleting data:', error);
+      Alert.alert('Error', 'Failed to delete your data. Please try again.');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const confirmDelete = () => {
+    Alert.alert(
+      'Delete My Data?',
+      `This permanently deletes ${profile?.name ?? 'this profile'}'s profile, goals and reflections from the server and this device. Other profiles are kept. Export a backup first if you may want them back.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete Everything', style: 'destructive', onPress: deleteData },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <Text style={styles.sectionTitle}>Profile</Text>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.inputLabel}>Name</Text>
+          <TextInput
+            style={styles.textInput}
+            value={name}
+            onChangeText={setName}
+            placeholder="Your name"
+            placeholderTextColor="#666"
+          />
+        </View>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.inputLabel}>Birth Date</Text>
+          <DateInput value={birthDate} onChange={setBirthDate} maximumDate={new Date()} />
+        </View>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.inputLabel}>Country</Text>
+          <CountryPicker value={country} onChange={setCountry} />
+        </View>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.inputLabel}>Life Expectancy</Text>
+          <TextInput
+            style={styles.textInput}
+            value={lifeExpectancy}
+            onChangeText={setLifeExpectancy}
+            placeholder="e.g., 85"
+            placeholderTextColor="#666"
+            keyboardType="numeric"
+            maxLength={3}
+          />
+          <Text style={styles.inputHelper}>
+            Between {MIN_LIFE_EXPECTANCY} and {MAX_LIFE_EXPECTANCY} years.{' '}
+            <Text style={styles.inputHelperLink} onPress={() => setLifeExpectancy(String(estimate))}>
+              Use the modelled estimate for {findCountry(country)?.name ?? 'your country'} ({estimate})
+            </Text>
+          </Text>
+        </View>
+
+        <TouchableOpacity
+          style={[styles.saveButton, (!hasChanges || saving) && styles.saveButtonDisabled]}
+          onPress={handleSave}
+          disabled={!hasChanges || saving}
+        >
+          <Text style={styles.saveButtonText}>{saving ? 'Saving...' : 'Save Changes'}</Text>
+        </TouchableOpacity>
+
+        <Text style={[styles.sectionTitle, styles.sectionSpacing]}>App</Text>
+        {LINKS.map((link) => (
+          <TouchableOpacity key={link.href} style={styles.linkRow} onPress={() => router.push(link.href)}>
+            <Ionicons name={link.icon} size={22} color="#D4AF37" />
+            <Text style={styles.linkText}>{link.title}</Text>
+            <Ionicons name="chevron-forward" size={20} color="#888" />
+          </TouchableOpacity>
+        ))}
+
+        <Text style={[styles.sectionTitle, styles.sectionSpacing, styles.dangerTitle]}>Danger Zone</Text>
+        <TouchableOpacity
+          style={[styles.deleteButton, deleting && styles.deleteButtonDisabled]}
+          onPress={confirmDelete}
+          disabled={deleting}
+        >
+          <Ionicons name="trash-outline" size={20} color="#FF6B6B" />
+          <Text style={styles.deleteButtonText}>{deleting ? 'Deleting...' : 'Delete My Data'}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0C0C0C',
+  },
+  scrollView: {
+    flex: 1,
+    padding: 20,
+  },
+  sectionTitle: {
+    color: '#D4AF37',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 16,
+  },
+  sectionSpacing: {
+    marginTop: 32,
+  },
+  inputContainer: {
+    marginBottom: 20,
+  },
+  inputLabel: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  textInput: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 8,
+    padding: 16,
+    color: '#FFFFFF',
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  inputHelper: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 8,
+    lineHeight: 18,
+  },
+  inputHelperLink: {
+    color: '#D4AF37',
+  },
+  saveButton: {
+    backgroundColor: '#D4AF37',
+    borderRadius: 8,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#666',
+  },
+  saveButtonText: {
+    color: '#0C0C0C',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1A1A1A',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+    gap: 16,
+  },
+  linkText: {
+    flex: 1,
+    color: '#FFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  dangerTitle: {
+    color: '#FF6B6B',
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    borderRadius: 8,
+    paddingVertical: 16,
+    marginBottom: 40,
+    borderWidth: 1,
+    borderColor: '#FF6B6B',
+  },
+  deleteButtonDisabled: {
+    opacity: 0.6,
+  },
+  deleteButtonText: {
+    color: '#FF6B6B',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,362 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useSession } from './lib/session';
+import { store } from './lib/store';
+import { addDays, ageOn, parseLocalDate, startOfDay, toDateString } from './lib/dates';
+import { entriesForWeek, getWeekNotes, isEmptyWeek, saveWeekNote, weekStart, WeekEntries } from './lib/weeks';
+import { Reflection } from './lib/models';
+
+const DAY: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric' };
+
+// The written parts of a reflection, in the order the reflect screen asks for them.
+const reflectionLines = (reflection: Reflection) =>
+  [
+    ...reflection.gratitude_items,
+    ...reflection.lessons_learned,
+    ...reflection.goals_progress,
+    ...reflection.challenges_faced,
+  ].filter((line) => line.trim());
+
+export default function WeekScreen() {
+  const { index: indexParam } = useLocalSearchParams<{ index: string }>();
+  const { profileId, profile } = useSession();
+  const [entries, setEntries] = useState<WeekEntries | null>(null);
+  const [draft, setDraft] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  const index = Number(indexParam);
+  const birthDate = profile?.birth_date;
+  const birth = useMemo(() => (birthDate ? parseLocalDate(birthDate) : null), [birthDate]);
+  const valid = birth !== null && Number.isInteger(index) && index >= 0;
+
+  useEffect(() => {
+    if (!profileId || !birth || !valid) return;
+    setLoadFailed(false);
+    Promise.all([store.getReflections(profileId), store.getGoals(profileId), getWeekNotes(profileId)])
+      .then(([reflections, goals, notes]) => setEntries(entriesForWeek(birth, index, { reflections, goals, notes })))
+      .catch((error) => {
+        console.error('Error loading week:', error);
+        setLoadFailed(true);
+      });
+  }, [profileId, birth, valid, index]);
+
+  if (!birth || !valid) {
+    return (
+      <SafeAreaView style={styles.centered}>
+        <Text style={styles.emptyText}>This week isn&apos;t part of your life calendar.</Text>
+      </SafeAreaView>
+    );
+  }
+
+  if (loadFailed) {
+    return (
+      <SafeAreaView style={styles.centered}>
+        <Text style={styles.emptyText}>This week couldn&apos;t be loaded. Go back and try again.</Text>
+      </SafeAreaView>
+    );
+  }
+
+  if (!entries) {
+    return (
+      <SafeAreaView style={styles.centered}>
+        <ActivityIndicator size="large" color="#D4AF37" />
+      </SafeAreaView>
+    );
+  }
+
+  const start = weekStart(birth, index);
+  const end = addDays(start, 6);
+  const today = startOfDay(new Date());
+  const future = start > today;
+  const current = !future && end >= today;
+
+  const handleSaveNote = async () => {
+    if (draft === null || !profileId) return;
+    setSaving(true);
+    try {
+      const note = await saveWeekNote(profileId, toDateString(start), draft);
+      setEntries({ ...entries, note });
+      setDraft(null);
+    } catch (error) {
+      console.error('Error saving week note:', error);
+      Alert.alert('Error', 'Failed to save the note. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderNote = () => {
+    if (draft !== null) {
+      return (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{entries.note ? 'Edit Note' : 'Retrospective Note'}</Text>
+          <TextInput
+            style={styles.noteInput}
+            value={draft}
+            onChangeText={setDraft}
+            placeholder="What do you remember about this week?"
+            placeholderTextColor="#666"
+            multiline
+            autoFocus
+            textAlignVertical="top"
+          />
+          <View style={styles.noteActions}>
+            <TouchableOpacity onPress={() => setDraft(null)} disabled={saving}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+              onPress={handleSaveNote}
+              disabled={saving}
+            >
+              <Text style={styles.saveButtonText}>{saving ? 'Saving...' : 'Save Note'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      );
+    }
+
+    if (entries.note) {
+      return (
+        <TouchableOpacity style={styles.card} onPress={() => setDraft(entries.note!.text)}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>Note</Text>
+            <Ionicons name="create-outline" size={18} color="#888" />
+          </View>
+          <Text style={styles.noteText}>{entries.note.text}</Text>
+        </TouchableOpacity>
+      );
+    }
+
+    return (
+      <TouchableOpacity style={styles.addNoteButton} onPress={() => setDraft('')}>
+        <Ionicons name="add" size={20} color="#D4AF37" />
+        <Text style={styles.addNoteText}>
+          {isEmptyWeek(entries) ? 'Add a Retrospective Note' : 'Add a Note'}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        <View style={styles.header}>
+          <Text style={styles.title}>Week {(index + 1).toLocaleString()}</Text>
+          <Text style={styles.subtitle}>
+            {start.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} –{' '}
+            {end.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })} · Age{' '}
+            {ageOn(birth, start)}
+          </Text>
+          {current && <Text style={styles.currentBadge}>This week</Text>}
+        </View>
+
+        {future ? (
+          <Text style={styles.emptyText}>This week is still ahead of you.</Text>
+        ) : (
+          <>
+            {isEmptyWeek(entries) && draft === null && (
+              <Text style={styles.emptyText}>Nothing was written down this week.</Text>
+            )}
+
+            {entries.reflections.length > 0 && (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Reflections</Text>
+                {entries.reflections.map((reflection) => (
+                  <View key={reflection.id} style={styles.entry}>
+                    <Text style={styles.entryMeta}>
+                      {new Date(reflection.date).toLocaleDateString(undefined, DAY)} · {reflection.type} · mood{' '}
+                      {reflection.mood_score}/5
+                    </Text>
+                    {reflectionLines(reflection).map((line, lineIndex) => (
+                      <Text key={lineIndex} style={styles.entryText}>
+                        {line}
+                      </Text>
+                    ))}
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {(entries.goalsCreated.length > 0 || entries.goalsCompleted.length > 0) && (
+              <TouchableOpacity style={styles.card} onPress={() => router.navigate('/(tabs)/goals')}>
+                <View style={styles.cardHeader}>
+                  <Text style={styles.cardTitle}>Goals</Text>
+                  <Ionicons name="chevron-forward" size={18} color="#888" />
+                </View>
+                {entries.goalsCompleted.map((goal) => (
+                  <View key={`completed-${goal.id}`} style={styles.goalRow}>
+                    <Ionicons name="checkmark-circle" size={18} color="#4CAF50" />
+                    <Text style={styles.entryText}>Completed &quot;{goal.title}&quot;</Text>
+                  </View>
+                ))}
+                {entries.goalsCreated.map((goal) => (
+                  <View key={`created-${goal.id}`} style={styles.goalRow}>
+                    <Ionicons name="flag-outline" size={18} color="#D4AF37" />
+                    <Text style={styles.entryText}>Set &quot;{goal.title}&quot;</Text>
+                  </View>
+                ))}
+              </TouchableOpacity>
+            )}
+
+            {renderNote()}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0C0C0C',
+  },
+  centered: {
+    flex: 1,
+    backgroundColor: '#0C0C0C',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  scrollView: {
+    flex: 1,
+    padding: 20,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  title: {
+    color: '#D4AF37',
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  subtitle: {
+    color: '#CCCCCC',
+    fontSize: 14,
+  },
+  currentBadge: {
+    color: '#FF6B6B',
+    fontSize: 12,
+    fontWeight: 'bold',
+    marginTop: 8,
+  },
+  emptyText: {
+    color: '#888',
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  card: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cardTitle: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  entry: {
+    marginTop: 8,
+  },
+  entryMeta: {
+    color: '#D4AF37',
+    fontSize: 12,
+    marginBottom: 4,
+    textTransform: 'capitalize',
+  },
+  entryText: {
+    flex: 1,
+    color: '#CCCCCC',
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  goalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  noteText: {
+    color: '#CCCCCC',
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  noteInput: {
+    backgroundColor: '#0C0C0C',
+    borderRadius: 8,
+    padding: 12,
+    color: '#FFFFFF',
+    fontSize: 14,
+    minHeight: 120,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  noteActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 20,
+    marginTop: 12,
+  },
+  cancelText: {
+    color: '#8B7355',
+    fontSize: 16,
+  },
+  saveButton: {
+    backgroundColor: '#D4AF37',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#666',
+  },
+  saveButtonText: {
+    color: '#0C0C0C',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  addNoteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    borderRadius: 8,
+    paddingVertical: 16,
+    marginBottom: 40,
+    borderWidth: 1,
+    borderColor: '#D4AF37',
+    borderStyle: 'dashed',
+  },
+  addNoteText: {
+    color: '#D4AF37',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
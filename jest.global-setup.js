@@ -0,0 +1,4 @@
+// Every test runs in a time zone behind UTC, so code that mixes local and UTC dates fails here.
+module.exports = () => {
+  process.env.TZ = 'America/New_York';
+};
@@ -0,0 +1,6 @@
+/* global jest */
+// Native modules the lib code imports, swapped for the in-memory mocks their packages ship.
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@react-native-community/netinfo', () => require('@react-native-community/netinfo/jest/netinfo-mock.js'));
@@ -0,0 +1,72 @@
+import type { Goal, Reflection, UserProfile } from '../app/lib/models';
+
+export interface Fixtures {
+  profiles: UserProfile[];
+  goals: (Goal & { user_id: string })[];
+  reflections: (Reflection & { user_id: string })[];
+}
+
+export const DEMO_PROFILE_ID = 'demo-user';
+
+// A fixed profile with a little history, so every screen has something to show.
+export const demoFixtures = (): Fixtures => ({
+  profiles: [
+    { id: DEMO_PROFILE_ID, birth_date: '1990-06-15', life_expectancy: 80, name: 'Demo', country: 'US' },
+  ],
+  goals: [
+    {
+      id: 'goal-1',
+      user_id: DEMO_PROFILE_ID,
+      title: 'Run a half marathon',
+      description: 'Build up to 21km by the autumn race.',
+      category: 'health',
+      priority: 'high',
+      status: 'active',
+      target_date: '2026-10-01',
+      created_at: '2026-01-05T09:00:00.000Z',
+      updated_at: '2026-01-05T09:00:00.000Z',
+    },
+    {
+      id: 'goal-2',
+      user_id: DEMO_PROFILE_ID,
+      title: 'Read 24 books',
+      description: '',
+      category: 'personal',
+      priority: 'medium',
+      status: 'completed',
+      target_date: null,
+      created_at: '2025-01-01T12:00:00.000Z',
+      updated_at: '2025-12-20T18:30:00.000Z',
+    },
+  ],
+  reflections: [
+    {
+      id: 'reflection-1',
+      user_id: DEMO_PROFILE_ID,
+      type: 'daily',
+      date: '2026-03-02T21:15:00.000Z',
+      mood_score: 4,
+      productivity_score: 3,
+      gratitude_items: ['A long call with my sister'],
+      lessons_learned: ['Shipped the first draft'],
+      goals_progress: ['Ten kilometre run on Saturday'],
+      challenges_faced: [],
+      created_at: '2026-03-02T21:15:00.000Z',
+    },
+    {
+      id: 'reflection-2',
+      user_id: DEMO_PROFILE_ID,
+      type: 'weekly',
+      date: '2026-03-08T20:00:00.000Z',
+      mood_score: 3,
+      productivity_score: 4,
+      gratitude_items: [],
+      lessons_learned: ['Finished the quarterly plan', 'Kept to the training schedule', 'Say no earlier', 'Rest'],
+      goals_progress: [],
+      challenges_faced: [],
+      created_at: '2026-03-08T20:00:00.000Z',
+    },
+  ],
+});
+
+export const emptyFixtures = (): Fixtures => ({ profiles: [], goals: [], reflections: [] });
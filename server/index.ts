@@ -0,0 +1,246 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import type {
+  CreateGoalInput,
+  CreateProfileInput,
+  CreateReflectionInput,
+  Goal,
+  Reflection,
+  UpdateProfileInput,
+} from '../app/lib/models';
+import { calculateMortalityStats } from '../app/lib/mortality';
+import { parseLocalDate } from '../app/lib/dates';
+import { validateProfileInput } from '../app/lib/profile';
+import { QUOTES } from '../app/lib/quotes';
+import { demoFixtures, emptyFixtures, Fixtures } from './fixtures';
+
+// Local stand-in for the backend. Everything lives in memory and is seeded at startup:
+//   MOCK_SEED=demo (default) | empty | ./path/to/fixtures.json
+const PORT = Number(process.env.PORT) || 8001;
+
+const loadFixtures = (seed: string): Fixtures => {
+  if (seed === 'demo') return demoFixtures();
+  if (seed === 'empty') return emptyFixtures();
+  return { ...emptyFixtures(), ...JSON.parse(readFileSync(seed, 'utf8')) };
+};
+
+const db = loadFixtures(process.env.MOCK_SEED || 'demo');
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Idempotency-Key',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = async <T>(req: IncomingMessage): Promise<T> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}') as T;
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON');
+  }
+};
+
+const findProfile = (id: string) => {
+  const profile = db.profiles.find((p) => p.id === id);
+  if (!profile) throw new HttpError(404, 'Profile not found');
+  return profile;
+};
+
+// The app replays queued creates after timeouts, keyed by the record's local id. A key seen
+// before (per profile) answers with the record the first request created.
+const createdByKey = new Map<string, string>();
+
+const idempotencyKey = (req: IncomingMessage, userId: string) => {
+  const key = req.headers['idempotency-key'];
+  return typeof key === 'string' && key ? `${userId}:${key}` : null;
+};
+
+const replayed = <T extends { id: string }>(req: IncomingMessage, userId: string, records: T[]) => {
+  const key = idempotencyKey(req, userId);
+  const id = key ? createdByKey.get(key) : undefined;
+  return id ? records.find((record) => record.id === id) : undefined;
+};
+
+const remember = (req: IncomingMessage, userId: string, id: string) => {
+  const key = idempotencyKey(req, userId);
+  if (key) createdByKey.set(key, id);
+};
+
+const stripUserId = <T extends { user_id: string }>({ user_id: _userId, ...rest }: T) => rest;
+
+// Same quote all day, like the real service.
+const dailyQuote = () => {
+  const dayNumber = Math.floor(Date.now() / (24 * 60 * 60 * 1000));
+  return QUOTES[dayNumber % QUOTES.length];
+};
+
+type Handler = (req: IncomingMessage, params: string[], query: URLSearchParams) => Promise<[number, unknown]>;
+
+const routes: [string, RegExp, Handler][] = [
+  ['POST', /^\/api\/profile$/, async (req) => {
+    const input = await readBody<CreateProfileInput>(req);
+    if (input.birth_date === undefined || input.life_expectancy === undefined) {
+      throw new HttpError(422, 'birth_date and life_expectancy are required');
+    }
+    const invalid = validateProfileInput({ birth_date: input.birth_date, life_expectancy: input.life_expectancy });
+    if (invalid) throw new HttpError(422, invalid);
+    const profile = {
+      id: randomUUID(),
+      birth_date: input.birth_date,
+      life_expectancy: input.life_expectancy,
+      name: input.name || 'User',
+      country: input.country || undefined,
+    };
+    db.profiles.push(profile);
+    return [200, profile];
+  }],
+
+  ['GET', /^\/api\/profile\/([^/]+)$/, async (_req, [id]) => [200, findProfile(id)]],
+
+  ['PUT', /^\/api\/profile\/([^/]+)$/, async (req, [id]) => {
+    const profile = findProfile(id);
+    const { birth_date, life_expectancy, name, country } = await readBody<UpdateProfileInput>(req);
+    const changes = { birth_date, life_expectancy, name, country };
+    const invalid = validateProfileInput(changes);
+    if (invalid) throw new HttpError(422, invalid);
+    if (birth_date !== undefined) profile.birth_date = birth_date;
+    if (life_expectancy !== undefined) profile.life_expectancy = life_expectancy;
+    if (name !== undefined) profile.name = name.trim();
+    if (country !== undefined) profile.country = country ? country.toUpperCase() : undefined;
+    return [200, profile];
+  }],
+
+  ['DELETE', /^\/api\/profile\/([^/]+)$/, async (_req, [id]) => {
+    const profile = findProfile(id);
+    const goals = db.goals.filter((g) => g.user_id === id).length;
+    const reflections = db.reflections.filter((r) => r.user_id === id).length;
+    db.profiles = db.profiles.filter((p) => p !== profile);
+    db.goals = db.goals.filter((g) => g.user_id !== id);
+    db.reflections = db.reflections.filter((r) => r.user_id !== id);
+    return [200, { goals_deleted: goals, reflections_deleted: reflections }];
+  }],
+
+  ['GET', /^\/api\/mortality\/([^/]+)$/, async (_req, [id]) => {
+    const profile = findProfile(id);
+    return [200, calculateMortalityStats(profile.birth_date, profile.life_expectancy)];
+  }],
+
+  ['GET', /^\/api\/quotes\/daily$/, async () => [200, dailyQuote()]],
+
+  ['GET', /^\/api\/goals\/([^/]+)$/, async (_req, [userId], query) => {
+    const status = query.get('status');
+    const goals = db.goals.filter((g) => g.user_id === userId && (!status || g.status === status));
+    return [200, goals.map(stripUserId)];
+  }],
+
+  ['POST', /^\/api\/goals$/, async (req) => {
+    const input = await readBody<CreateGoalInput>(req);
+    findProfile(input.user_id);
+    const existing = replayed(req, input.user_id, db.goals);
+    if (existing) return [200, stripUserId(existing)];
+    if (!input.title?.trim()) throw new HttpError(422, 'title is required');
+    if (input.target_date && !parseLocalDate(input.target_date)) {
+      throw new HttpError(422, 'target_date must be a real date in YYYY-MM-DD format');
+    }
+    const now = new Date().toISOString();
+    const createdAt = input.created_at ?? now;
+    const goal = {
+      id: randomUUID(),
+      user_id: input.user_id,
+      title: input.title.trim(),
+      description: input.description ?? '',
+      category: input.category ?? 'personal',
+      priority: input.priority ?? 'medium',
+      status: input.status ?? 'active',
+      target_date: input.target_date ?? null,
+      created_at: createdAt,
+      updated_at: createdAt,
+    };
+    db.goals.push(goal);
+    remember(req, input.user_id, goal.id);
+    return [200, stripUserId(goal)];
+  }],
+
+  ['PUT', /^\/api\/goals\/([^/]+)$/, async (req, [goalId]) => {
+    const goal = db.goals.find((g) => g.id === goalId);
+    if (!goal) throw new HttpError(404, 'Goal not found');
+    const { id: _id, user_id: _userId, created_at: _createdAt, ...changes } = await readBody<Partial<Goal & { user_id: string }>>(req);
+    if (changes.target_date && !parseLocalDate(changes.target_date)) {
+      throw new HttpError(422, 'target_date must be a real date in YYYY-MM-DD format');
+    }
+    Object.assign(goal, changes, { updated_at: new Date().toISOString() });
+    return [200, stripUserId(goal)];
+  }],
+
+  ['GET', /^\/api\/reflections\/([^/]+)$/, async (_req, [userId], query) => {
+    const type = query.get('type');
+    const reflections = db.reflections
+      .filter((r) => r.user_id === userId && (!type || r.type === type))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+    return [200, reflections.map(stripUserId)];
+  }],
+
+  ['POST', /^\/api\/reflections$/, async (req) => {
+    const input = await readBody<CreateReflectionInput>(req);
+    findProfile(input.user_id);
+    const existing = replayed(req, input.user_id, db.reflections);
+    if (existing) return [200, stripUserId(existing)];
+    const now = new Date().toISOString();
+    const reflection: Reflection & { user_id: string } = {
+      id: randomUUID(),
+      user_id: input.user_id,
+      type: input.type ?? 'daily',
+      date: input.date ?? input.created_at ?? now,
+      mood_score: input.mood_score,
+      productivity_score: input.productivity_score,
+      gratitude_items: input.gratitude_items ?? [],
+      lessons_learned: input.lessons_learned ?? [],
+      goals_progress: input.goals_progress ?? [],
+      challenges_faced: input.challenges_faced ?? [],
+      created_at: input.created_at ?? now,
+    };
+    db.reflections.push(reflection);
+    remember(req, input.user_id, reflection.id);
+    return [200, stripUserId(reflection)];
+  }],
+];
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+  if (req.method === 'OPTIONS') return send(res, 204, undefined);
+
+  try {
+    for (const [method, pattern, handler] of routes) {
+      const match = pattern.exec(url.pathname);
+      if (match && method === req.method) {
+        const [status, body] = await handler(req, match.slice(1).map(decodeURIComponent), url.searchParams);
+        console.log(`${req.method} ${url.pathname}${url.search} -> ${status}`);
+        return send(res, status, body);
+      }
+    }
+    throw new HttpError(404, `No route for ${req.method} ${url.pathname}`);
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 500;
+    const message = error instanceof Error ? error.message : 'Internal error';
+    console.log(`${req.method} ${url.pathname}${url.search} -> ${status} ${message}`);
+    send(res, status, { detail: message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock backend listening on http://localhost:${PORT}`);
+});